@@ -0,0 +1,7 @@
+// Used by jest (babel-jest) to run the TypeScript sources directly
+module.exports = {
+  presets: [
+    ["@babel/preset-env", { targets: { node: "current" } }],
+    "@babel/preset-typescript",
+  ],
+};
@@ -1,22 +1,84 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import {
+  AccessTokenPayload,
+  hashToken,
+  isSessionActive,
+  verifyAccessToken,
+} from "../src/auth/token";
+import { ApiKey, ApiKeyScope } from "../src/apiKey/model";
+import { findRole } from "../src/role/model";
+import { Permission } from "../src/role/permissions";
+import { Impersonation } from "../src/impersonation/model";
 
 // Define interface for JWT payload
-interface TokenPayload {
-  userId: string;
-  email?: string;
-  role?: string;
+type TokenPayload = AccessTokenPayload;
+
+// Partner API key attached by verifyApiKey
+interface ApiKeyContext {
+  keyId: string;
+  company: string;
+  scopes: string[];
 }
 
+// Requests an impersonation token may still make besides reads
+const IMPERSONATION_WRITE_ALLOWLIST = [
+  "/api/v1/impersonation/end",
+  "/api/v1/logout",
+];
+
+const isReadOnlyMethod = (method: string) =>
+  ["GET", "HEAD", "OPTIONS"].includes(method);
+
+/**
+ * Audit every request made while impersonating and block writes, so support
+ * staff can look but not act on the user's behalf
+ */
+const guardImpersonation = (
+  req: Request,
+  res: Response,
+  user: TokenPayload
+) => {
+  const path = req.originalUrl.split("?")[0];
+  const blocked =
+    !isReadOnlyMethod(req.method) &&
+    !IMPERSONATION_WRITE_ALLOWLIST.includes(path);
+
+  // Lets the frontend show an impersonation banner on every response
+  res.setHeader("X-Impersonated-By", user.impersonatorId!);
+
+  res.on("finish", () => {
+    Impersonation.updateOne(
+      { sessionId: user.sessionId },
+      {
+        $push: {
+          requests: {
+            method: req.method,
+            path,
+            statusCode: res.statusCode,
+            blocked,
+            at: new Date(),
+          },
+        },
+      }
+    ).catch((error) =>
+      console.error("Error auditing impersonated request:", error)
+    );
+  });
+
+  return blocked;
+};
+
 declare global {
   namespace Express {
     interface Request {
       user?: TokenPayload;
+      apiKey?: ApiKeyContext;
     }
   }
 }
 
-export const verifyToken = (
+export const verifyToken = async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -47,27 +109,42 @@ export const verifyToken = (
     const token = parts[1];
 
     // Verify token
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || "BONDTRADE_SECRET_KEY"
-    ) as TokenPayload;
+    const decoded = verifyAccessToken(token);
+
+    // Reject tokens whose session was logged out or revoked
+    if (!(await isSessionActive(decoded.sessionId))) {
+      return res.status(401).json({
+        code: "Error-01-0008",
+        status: "Error",
+        message: "Session has been revoked. Please log in again.",
+      });
+    }
+
+    if (decoded.impersonatorId && guardImpersonation(req, res, decoded)) {
+      return res.status(403).json({
+        code: "Error-01-0013",
+        status: "Error",
+        message: "This action is not allowed while impersonating a user",
+      });
+    }
 
     // Attach user info to request object
     req.user = decoded;
 
     next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
+    // TokenExpiredError extends JsonWebTokenError, so it must be checked first
+    if (error instanceof jwt.TokenExpiredError) {
       return res.status(401).json({
-        code: "Error-01-0003",
+        code: "Error-01-0004",
         status: "Error",
-        message: "Invalid token",
+        message: "Token expired",
       });
-    } else if (error instanceof jwt.TokenExpiredError) {
+    } else if (error instanceof jwt.JsonWebTokenError) {
       return res.status(401).json({
-        code: "Error-01-0004",
+        code: "Error-01-0003",
         status: "Error",
-        message: "Token expired",
+        message: "Invalid token",
       });
     }
 
@@ -79,28 +156,125 @@ export const verifyToken = (
   }
 };
 
-export const checkAdminRole = (
-  req: Request,
-  res: Response,
-  next: NextFunction
+/**
+ * Check whether the caller's role grants a permission.
+ * Used for "own record or privileged" checks inside handlers.
+ */
+export const hasPermission = async (
+  user: TokenPayload | undefined,
+  permission: Permission
 ) => {
-  // Ensure user is authenticated first
-  if (!req.user) {
-    return res.status(401).json({
-      code: "Error-01-0006",
-      status: "Error",
-      message: "Unauthorized",
-    });
+  if (!user) {
+    return false;
   }
 
-  // Check if user has admin role
-  if (req.user.role && req.user.role === "admin") {
-    next();
-  } else {
-    return res.status(403).json({
-      code: "Error-01-0007",
-      status: "Error",
-      message: "Insufficient permissions",
-    });
+  const role = await findRole(user.role);
+  if (!role || (role.requiresMfa && !user.mfa)) {
+    return false;
   }
+
+  return role.permissions.includes(permission);
 };
+
+export const requirePermission =
+  (...permissions: Permission[]) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    // Ensure user is authenticated first
+    if (!req.user) {
+      return res.status(401).json({
+        code: "Error-01-0006",
+        status: "Error",
+        message: "Unauthorized",
+      });
+    }
+
+    try {
+      const role = await findRole(req.user.role);
+      const granted = role ? role.permissions : [];
+
+      if (!role || !permissions.every((p) => granted.includes(p))) {
+        return res.status(403).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "Insufficient permissions",
+        });
+      }
+
+      // Privileged roles must have passed the TOTP second factor
+      if (role.requiresMfa && !req.user.mfa) {
+        return res.status(403).json({
+          code: "Error-01-0009",
+          status: "Error",
+          message:
+            "Two-factor authentication is required. Enable it via /auth/2fa/setup or log in again with your authenticator code.",
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Error checking permissions:", error);
+      return res.status(500).json({
+        code: "Error-01-0005",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  };
+
+/**
+ * Authenticate partner systems with an `X-Api-Key` header. Keys are scoped
+ * to one company; handlers must filter data by `req.apiKey.company`.
+ */
+export const verifyApiKey =
+  (...scopes: ApiKeyScope[]) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const presented = req.headers["x-api-key"];
+
+    if (!presented || typeof presented !== "string") {
+      return res.status(401).json({
+        code: "Error-01-0010",
+        status: "Error",
+        message: "X-Api-Key header missing",
+      });
+    }
+
+    try {
+      const key = await ApiKey.findOne({ keyHash: hashToken(presented) });
+
+      if (!key || key.revokedAt || key.expiresAt < new Date()) {
+        return res.status(401).json({
+          code: "Error-01-0011",
+          status: "Error",
+          message: "Invalid, expired or revoked API key",
+        });
+      }
+
+      if (!scopes.every((scope) => key.scopes.includes(scope))) {
+        return res.status(403).json({
+          code: "Error-01-0012",
+          status: "Error",
+          message: `API key is missing required scope: ${scopes.join(", ")}`,
+        });
+      }
+
+      await ApiKey.updateOne(
+        { _id: key._id },
+        { $set: { lastUsedAt: new Date(), lastUsedIp: req.ip || "" } }
+      );
+
+      req.apiKey = {
+        keyId: key._id.toString(),
+        company: key.company,
+        scopes: key.scopes,
+      };
+
+      next();
+    } catch (error) {
+      console.error("Error verifying API key:", error);
+      return res.status(500).json({
+        code: "Error-01-0005",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  };
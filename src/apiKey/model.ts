@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+
+// What a partner key may read. Every key is also limited to one company.
+export const API_KEY_SCOPES = ["trader:read", "training:read"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const apiKeySchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true },
+    // Must match Trader.company exactly
+    company: { type: String, required: true, index: true },
+    scopes: [{ type: String, enum: API_KEY_SCOPES }],
+    // Shown in listings so admins can tell keys apart; the key itself is
+    // only returned once, at creation
+    keyPrefix: { type: String, required: true },
+    keyHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    lastUsedAt: { type: Date, default: null },
+    lastUsedIp: { type: String, default: "" },
+    revokedAt: { type: Date, default: null },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+export const ApiKey = mongoose.model("apikeys", apiKeySchema);
@@ -0,0 +1,295 @@
+import express, { Request, Response } from "express";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { API_KEY_SCOPES, ApiKey } from "./model";
+import { hashToken } from "../auth/token";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const apiKey = express.Router();
+
+// Keys expire after a year unless the admin asks for less
+const MAX_API_KEY_TTL_DAYS = 365;
+
+/**
+ * @swagger
+ * /api-key:
+ *   post:
+ *     summary: Issue an API key for a partner brokerage firm
+ *     description: The key is returned only in this response. It is stored as a SHA-256 hash and only grants access to traders whose company matches.
+ *     tags: [API Key]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - company
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: 'HR system'
+ *               company:
+ *                 type: string
+ *                 example: 'Example Co., Ltd.'
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [trader:read, training:read]
+ *               expiresInDays:
+ *                 type: integer
+ *                 example: 180
+ *     responses:
+ *       201:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-09-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'API key created. Store it now; it will not be shown again.'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     key:
+ *                       type: string
+ *                       example: 'bt_3f9a1c2d_9b8f...'
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Missing fields, unknown scope or invalid expiry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-09-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'name, company and scopes are required'
+ *       500:
+ *         description: Internal server error
+ */
+apiKey.post(
+  "/",
+  verifyToken,
+  requirePermission("apikey:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { name, company, scopes, expiresInDays } = req.body;
+
+      if (!name || !company || !Array.isArray(scopes) || scopes.length === 0) {
+        return res.status(400).json({
+          code: "Error-09-0001",
+          status: "Error",
+          message: "name, company and scopes are required",
+        });
+      }
+
+      const unknownScopes = scopes.filter(
+        (scope: string) =>
+          !(API_KEY_SCOPES as readonly string[]).includes(scope)
+      );
+      if (unknownScopes.length > 0) {
+        return res.status(400).json({
+          code: "Error-09-0002",
+          status: "Error",
+          message: `Unknown scope(s): ${unknownScopes.join(", ")}`,
+        });
+      }
+
+      const days =
+        expiresInDays === undefined
+          ? MAX_API_KEY_TTL_DAYS
+          : Number(expiresInDays);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_API_KEY_TTL_DAYS) {
+        return res.status(400).json({
+          code: "Error-09-0003",
+          status: "Error",
+          message: `expiresInDays must be between 1 and ${MAX_API_KEY_TTL_DAYS}`,
+        });
+      }
+
+      const keyPrefix = crypto.randomBytes(4).toString("hex");
+      const key = `bt_${keyPrefix}_${crypto.randomBytes(32).toString("hex")}`;
+
+      const created = await ApiKey.create({
+        name,
+        company,
+        scopes: Array.from(new Set(scopes)),
+        keyPrefix,
+        keyHash: hashToken(key),
+        expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+        createdBy: req.user!.userId,
+      });
+
+      res.status(201).json({
+        code: "Success-09-0001",
+        status: "Success",
+        message: "API key created. Store it now; it will not be shown again.",
+        data: {
+          id: created._id,
+          name: created.name,
+          company: created.company,
+          scopes: created.scopes,
+          key,
+          expiresAt: created.expiresAt,
+        },
+      });
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api-key:
+ *   get:
+ *     summary: List partner API keys
+ *     description: Hashes are never returned; keys are identified by their prefix.
+ *     tags: [API Key]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: company
+ *         schema:
+ *           type: string
+ *         description: Only list keys for this company
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *       500:
+ *         description: Internal server error
+ */
+apiKey.get(
+  "/",
+  verifyToken,
+  requirePermission("apikey:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const filter =
+        typeof req.query.company === "string"
+          ? { company: req.query.company }
+          : {};
+      const keys = await ApiKey.find(filter)
+        .select("-keyHash")
+        .sort({ createdAt: -1 });
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "API keys retrieved successfully",
+        data: keys,
+      });
+    } catch (error) {
+      console.error("Error retrieving API keys:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api-key/{keyId}:
+ *   delete:
+ *     summary: Revoke a partner API key
+ *     tags: [API Key]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-09-0004'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'API key not found'
+ *       500:
+ *         description: Internal server error
+ */
+apiKey.delete(
+  "/:keyId",
+  verifyToken,
+  requirePermission("apikey:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const key = mongoose.isValidObjectId(req.params.keyId)
+        ? await ApiKey.findById(req.params.keyId)
+        : null;
+      if (!key) {
+        return res.status(404).json({
+          code: "Error-09-0004",
+          status: "Error",
+          message: "API key not found",
+        });
+      }
+
+      if (!key.revokedAt) {
+        key.revokedAt = new Date();
+        await key.save();
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "API key revoked",
+      });
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
@@ -11,6 +11,28 @@ import { enrollment } from "./enrollment/route";
 import { useSwagger } from "../middleware/swagger";
 import payment from "./payment/route";
 import { auth } from "./auth/route";
+import { twoFactor } from "./twoFactor/route";
+import { role } from "./role/route";
+import { ensureDefaultRoles } from "./role/model";
+import { ensureDefaultRenewalPolicy } from "./renewalPolicy/model";
+import { apiKey } from "./apiKey/route";
+import { partner } from "./partner/route";
+import { oidc } from "./oidc/route";
+import { session } from "./session/route";
+import { impersonation } from "./impersonation/route";
+import { wellKnown } from "./wellKnown/route";
+import { invite } from "./invite/route";
+import { startKeyRing } from "./auth/keyRing";
+import { dataExport } from "./dataExport/route";
+import { startDataExportWorker } from "./dataExport/job";
+import { erasure } from "./erasure/route";
+import { consent } from "./consent/route";
+import { dormancy } from "./dormancy/route";
+import { startDormancyJob } from "./dormancy/job";
+import { traderImport } from "./traderImport/route";
+import { licenceReminder } from "./licenceReminder/route";
+import { startLicenceReminderJob } from "./licenceReminder/job";
+import { renewalPolicy } from "./renewalPolicy/route";
 
 dotenv.config();
 
@@ -19,6 +41,8 @@ const app = express();
 const corsOptions = {
   origin: ["http://localhost:3000", "http://btradebackend:20000"],
   credentials: true,
+  // Read by the frontend to show the impersonation banner
+  exposedHeaders: ["X-Impersonated-By"],
 };
 
 app.use(cors(corsOptions));
@@ -28,24 +52,56 @@ app.use(helmet());
 app.use(cookieParser());
 app.use(express.static("public"));
 
-// Connect to MongoDB
-mongoose
-  .connect(process.env.MONGODB_URI!)
-  .then(() => console.log("Successfully connected to MongoDB"))
-  .catch((err) => console.error("Error connecting to MongoDB:", err));
-
 // Routes
+app.use("/.well-known", wellKnown);
 app.use("/api/v1/course", course);
 app.use("/api/v1/user", user);
 app.use("/api/v1", auth);
+app.use("/api/v1/auth/2fa", twoFactor);
+app.use("/api/v1/auth/oidc", oidc);
+app.use("/api/v1/auth/sessions", session);
+app.use("/api/v1/impersonation", impersonation);
+app.use("/api/v1/invite", invite);
+app.use("/api/v1/data-export", dataExport);
+app.use("/api/v1/erasure-request", erasure);
+app.use("/api/v1/consent", consent);
+app.use("/api/v1/dormancy", dormancy);
+app.use("/api/v1/role", role);
+app.use("/api/v1/api-key", apiKey);
+app.use("/api/v1/partner", partner);
 app.use("/api/v1/trader", trader);
+app.use("/api/v1/trader-import", traderImport);
+app.use("/api/v1/licence-reminder", licenceReminder);
 app.use("/api/v1", payment);
 app.use("/api/v1/enrollment", enrollment);
+app.use("/api/v1/renewal-policy", renewalPolicy);
 app.use("/api/webhook", express.raw({ type: "application/json" }));
 
 useSwagger(app);
 
 const PORT = process.env.PORT || 20000;
-app.listen(PORT, () => {
-  console.log(`Server is running on port ${PORT}`);
+
+/**
+ * Connect to MongoDB and prepare everything requests depend on before
+ * accepting traffic. Any failure ends the process so it is restarted
+ * instead of serving logins that cannot sign tokens.
+ */
+const start = async () => {
+  await mongoose.connect(process.env.MONGODB_URI!);
+  console.log("Successfully connected to MongoDB");
+  await ensureDefaultRoles();
+  await ensureDefaultRenewalPolicy();
+  await startKeyRing();
+  startDataExportWorker();
+  startDormancyJob();
+  startLicenceReminderJob();
+
+  app.listen(PORT, () => {
+    console.log(`Server is running on port ${PORT}`);
+  });
+};
+
+start().catch((err) => {
+  console.error("Error starting server:", err);
+  process.exit(1);
 });
@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { SigningKey } from "./model";
+
+const SIGNING_ALGORITHM = "RS256";
+
+// A new signing key takes over this often (JWT_KEY_ROTATION_DAYS overrides)
+const DEFAULT_KEY_ROTATION_DAYS = 30;
+// Retired keys keep verifying for longer than any token lives (24h max)
+const KEY_OVERLAP_HOURS = 48;
+// Successors are published this long before they sign, which must be longer
+// than the refresh interval so every instance knows the key in time
+const KEY_PUBLISH_AHEAD_MINUTES = 10;
+const KEY_RING_REFRESH_MINUTES = 5;
+
+interface LoadedKey {
+  kid: string;
+  publicKey: crypto.KeyObject;
+  privateKey: crypto.KeyObject;
+  activatesAt: Date;
+}
+
+// Sorted by activatesAt, oldest first
+let loadedKeys: LoadedKey[] = [];
+
+// Private keys are encrypted at rest with a key derived from the environment
+const encryptionKey = () => {
+  const secret = process.env.KEY_ENCRYPTION_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error(
+      "KEY_ENCRYPTION_SECRET must be set to store JWT signing keys"
+    );
+  }
+  return crypto.createHash("sha256").update(secret).digest();
+};
+
+const encryptPrivateKey = (pem: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(pem, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64"))
+    .join(".");
+};
+
+const decryptPrivateKey = (stored: string) => {
+  const [iv, tag, encrypted] = stored
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+};
+
+const generateSigningKey = (activatesAt: Date) => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+
+  return SigningKey.create({
+    kid: crypto.randomBytes(8).toString("hex"),
+    algorithm: SIGNING_ALGORITHM,
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+    encryptedPrivateKey: encryptPrivateKey(
+      privateKey.export({ type: "pkcs8", format: "pem" }).toString()
+    ),
+    activatesAt,
+  });
+};
+
+const loadKeys = async () => {
+  const keys = await SigningKey.find({
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+  })
+    .select("+encryptedPrivateKey")
+    .sort({ activatesAt: 1 });
+
+  loadedKeys = keys.map((key) => ({
+    kid: key.kid,
+    publicKey: crypto.createPublicKey(key.publicKey),
+    privateKey: crypto.createPrivateKey(
+      decryptPrivateKey(key.encryptedPrivateKey)
+    ),
+    activatesAt: key.activatesAt,
+  }));
+};
+
+const activeKey = () => {
+  const now = Date.now();
+  const activated = loadedKeys.filter(
+    (key) => key.activatesAt.getTime() <= now
+  );
+  return activated[activated.length - 1];
+};
+
+const rotateIfDue = async () => {
+  const rotationDays =
+    Number(process.env.JWT_KEY_ROTATION_DAYS) || DEFAULT_KEY_ROTATION_DAYS;
+  const now = Date.now();
+  const current = activeKey();
+  const hasSuccessor = loadedKeys.some(
+    (key) => key.activatesAt.getTime() > now
+  );
+
+  if (!current && !hasSuccessor) {
+    // First start: nothing has been signed yet, so no need to wait
+    await generateSigningKey(new Date());
+  } else if (
+    current &&
+    !hasSuccessor &&
+    current.activatesAt.getTime() + rotationDays * 24 * 60 * 60 * 1000 <=
+      now + KEY_PUBLISH_AHEAD_MINUTES * 60 * 1000
+  ) {
+    await generateSigningKey(
+      new Date(now + KEY_PUBLISH_AHEAD_MINUTES * 60 * 1000)
+    );
+  }
+
+  // Keys replaced by the active one stop signing and expire after the overlap
+  if (current) {
+    await SigningKey.updateMany(
+      { activatesAt: { $lt: current.activatesAt }, rotatedAt: null },
+      {
+        $set: {
+          rotatedAt: current.activatesAt,
+          expiresAt: new Date(
+            current.activatesAt.getTime() + KEY_OVERLAP_HOURS * 60 * 60 * 1000
+          ),
+        },
+      }
+    );
+  }
+};
+
+/**
+ * Reload keys from MongoDB, rotating first when the active key is due
+ */
+export const refreshKeyRing = async () => {
+  await loadKeys();
+  await rotateIfDue();
+  await loadKeys();
+};
+
+/**
+ * Load the key ring and keep it current. Must finish before tokens are
+ * signed or verified.
+ */
+export const startKeyRing = async () => {
+  await refreshKeyRing();
+  setInterval(() => {
+    refreshKeyRing().catch((error) =>
+      console.error("Error refreshing signing keys:", error)
+    );
+  }, KEY_RING_REFRESH_MINUTES * 60 * 1000);
+};
+
+export const signJwt = (
+  payload: object,
+  expiresIn: jwt.SignOptions["expiresIn"]
+): string => {
+  const key = activeKey();
+  if (!key) {
+    throw new Error("JWT signing keys are not loaded");
+  }
+  return jwt.sign(payload, key.privateKey, {
+    algorithm: SIGNING_ALGORITHM,
+    keyid: key.kid,
+    expiresIn,
+  });
+};
+
+/**
+ * Verify a token with the key named by its `kid` header. Tokens without a
+ * known kid are rejected.
+ */
+export const verifyJwt = (token: string) => {
+  const decoded = jwt.decode(token, { complete: true });
+  const key = loadedKeys.find((k) => k.kid === decoded?.header.kid);
+  if (!key) {
+    throw new jwt.JsonWebTokenError("unknown signing key");
+  }
+  return jwt.verify(token, key.publicKey, {
+    algorithms: [SIGNING_ALGORITHM],
+  }) as jwt.JwtPayload;
+};
+
+/**
+ * Public keys for /.well-known/jwks.json, including published successors
+ * and retired keys still inside their overlap period
+ */
+export const getJwks = () => ({
+  keys: loadedKeys.map((key) => ({
+    ...key.publicKey.export({ format: "jwk" }),
+    kid: key.kid,
+    alg: SIGNING_ALGORITHM,
+    use: "sig",
+  })),
+});
@@ -0,0 +1,196 @@
+import {
+  clearLoginFailures,
+  getLockedUntil,
+  recordLoginFailure,
+} from "./lockout";
+
+interface MockAttempt {
+  _id: string;
+  key: string;
+  failedCount?: number;
+  lastFailedAt?: Date | null;
+  lockedUntil?: Date | null;
+  lockCount?: number;
+}
+
+// In-memory login attempts. Each write is applied in one step, like a
+// single MongoDB update, and the pipeline operators the module uses are
+// evaluated against the stored document.
+const mockAttempts = new Map<string, MockAttempt>();
+
+const mockEvaluate = (expression: any, doc: Record<string, any>): any => {
+  if (typeof expression === "string" && expression.startsWith("$")) {
+    return doc[expression.slice(1)];
+  }
+  if (
+    !expression ||
+    typeof expression !== "object" ||
+    expression instanceof Date
+  ) {
+    return expression;
+  }
+  const [operator] = Object.keys(expression);
+  const args = expression[operator].map((arg: unknown) =>
+    mockEvaluate(arg, doc)
+  );
+  switch (operator) {
+    case "$cond":
+      return args[0] ? args[1] : args[2];
+    case "$gte":
+      // Missing fields sort before every date
+      return args[0] != null && args[0] >= args[1];
+    case "$add":
+      return args[0] + args[1];
+    case "$ifNull":
+      return args[0] ?? args[1];
+  }
+  throw new Error(`Unsupported operator ${operator}`);
+};
+
+jest.mock("./model", () => ({
+  LoginAttempt: {
+    find: jest.fn(
+      async (filter: { key: { $in: string[] }; lockedUntil: { $gt: Date } }) =>
+        filter.key.$in
+          .map((key) => mockAttempts.get(key))
+          .filter(
+            (attempt) =>
+              attempt?.lockedUntil &&
+              attempt.lockedUntil > filter.lockedUntil.$gt
+          )
+    ),
+    findOneAndUpdate: jest.fn(
+      async (
+        filter: { key: string },
+        pipeline: { $set: Record<string, unknown> }[]
+      ) => {
+        const attempt = mockAttempts.get(filter.key) ?? {
+          _id: filter.key,
+          key: filter.key,
+        };
+        const changes = Object.fromEntries(
+          Object.entries(pipeline[0].$set).map(([field, expression]) => [
+            field,
+            mockEvaluate(expression, attempt),
+          ])
+        );
+        Object.assign(attempt, changes);
+        mockAttempts.set(filter.key, attempt);
+        return attempt;
+      }
+    ),
+    updateOne: jest.fn(
+      async (
+        filter: Record<string, any>,
+        update: { $set: Partial<MockAttempt>; $inc?: { lockCount: number } }
+      ) => {
+        const attempt = Array.from(mockAttempts.values()).find(
+          (candidate) =>
+            candidate._id === filter._id || candidate.key === filter.key
+        );
+        if (
+          !attempt ||
+          (filter.failedCount &&
+            (attempt.failedCount ?? 0) < filter.failedCount.$gte)
+        ) {
+          return { matchedCount: 0 };
+        }
+        Object.assign(attempt, update.$set);
+        if (update.$inc) {
+          attempt.lockCount = (attempt.lockCount ?? 0) + update.$inc.lockCount;
+        }
+        return { matchedCount: 1 };
+      }
+    ),
+  },
+}));
+
+const EMAIL = "Trader@BTrade.example";
+const IP = "203.0.113.7";
+const MINUTE = 60 * 1000;
+
+// Only the clock is faked; the mocked model never waits on timers
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date("2025-01-06T09:00:00Z") });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  mockAttempts.clear();
+});
+
+const fail = async (times: number) => {
+  for (let i = 0; i < times; i++) {
+    await recordLoginFailure(EMAIL, IP);
+  }
+};
+
+const lockedMinutes = async () => {
+  const lockedUntil = await getLockedUntil(EMAIL, IP);
+  return lockedUntil ? (lockedUntil.getTime() - Date.now()) / MINUTE : 0;
+};
+
+// Wait out the current lock
+const expireLock = async () => {
+  jest.advanceTimersByTime((await lockedMinutes()) * MINUTE + 1);
+};
+
+describe("account lockout", () => {
+  it("locks the account for a minute after five failures", async () => {
+    await fail(4);
+    expect(await lockedMinutes()).toBe(0);
+
+    await fail(1);
+    expect(await lockedMinutes()).toBe(1);
+  });
+
+  it("matches the account whatever the case of the email", async () => {
+    await fail(3);
+    for (let i = 0; i < 2; i++) {
+      await recordLoginFailure("trader@btrade.example", IP);
+    }
+
+    expect(await lockedMinutes()).toBe(1);
+  });
+
+  it("doubles each following lock up to an hour", async () => {
+    const locks: number[] = [];
+    for (let i = 0; i < 8; i++) {
+      await fail(5);
+      locks.push(await lockedMinutes());
+      await expireLock();
+    }
+
+    expect(locks).toEqual([1, 2, 4, 8, 16, 32, 60, 60]);
+  });
+
+  it("stops counting failures older than the window", async () => {
+    await fail(4);
+    jest.advanceTimersByTime(16 * MINUTE);
+
+    await fail(1);
+    expect(await lockedMinutes()).toBe(0);
+  });
+
+  it("keeps escalating after a successful login clears the counter", async () => {
+    await fail(5);
+    await expireLock();
+    await clearLoginFailures(EMAIL);
+
+    await fail(4);
+    expect(await lockedMinutes()).toBe(0);
+    await fail(1);
+    expect(await lockedMinutes()).toBe(2);
+  });
+
+  it("locks once when failures arrive in parallel", async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, () => recordLoginFailure(EMAIL, IP))
+    );
+
+    expect(await lockedMinutes()).toBe(1);
+    expect(mockAttempts.get("account:trader@btrade.example")!.lockCount).toBe(
+      1
+    );
+  });
+});
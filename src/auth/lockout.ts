@@ -0,0 +1,118 @@
+import { LoginAttempt } from "./model";
+
+interface LockoutPolicy {
+  maxFailures: number;
+  baseLockMinutes: number;
+  maxLockMinutes: number;
+}
+
+// Failures older than this no longer count towards a lockout
+const FAILURE_WINDOW_MINUTES = 15;
+
+const ACCOUNT_POLICY: LockoutPolicy = {
+  maxFailures: 5,
+  baseLockMinutes: 1,
+  maxLockMinutes: 60,
+};
+
+const IP_POLICY: LockoutPolicy = {
+  maxFailures: 20,
+  baseLockMinutes: 5,
+  maxLockMinutes: 24 * 60,
+};
+
+const accountKey = (email: string) =>
+  `account:${String(email).trim().toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+/**
+ * Return the time until which the account or IP is locked, if any
+ */
+export const getLockedUntil = async (
+  email: string,
+  ip: string
+): Promise<Date | null> => {
+  const attempts = await LoginAttempt.find({
+    key: { $in: [accountKey(email), ipKey(ip)] },
+    lockedUntil: { $gt: new Date() },
+  });
+
+  if (attempts.length === 0) {
+    return null;
+  }
+
+  return attempts.reduce(
+    (latest, attempt) =>
+      attempt.lockedUntil! > latest ? attempt.lockedUntil! : latest,
+    attempts[0].lockedUntil!
+  );
+};
+
+const registerFailure = async (key: string, policy: LockoutPolicy) => {
+  const now = new Date();
+  const windowStart = new Date(
+    now.getTime() - FAILURE_WINDOW_MINUTES * 60 * 1000
+  );
+
+  // One atomic update so parallel attempts cannot lose increments. The
+  // count starts again once the previous failures are stale.
+  const attempt = await LoginAttempt.findOneAndUpdate(
+    { key },
+    [
+      {
+        $set: {
+          failedCount: {
+            $cond: [
+              { $gte: ["$lastFailedAt", windowStart] },
+              { $add: ["$failedCount", 1] },
+              1,
+            ],
+          },
+          lastFailedAt: now,
+          lockCount: { $ifNull: ["$lockCount", 0] },
+        },
+      },
+    ],
+    { upsert: true, new: true }
+  );
+
+  if (attempt.failedCount >= policy.maxFailures) {
+    // Progressive lockout: 1x, 2x, 4x ... the base duration, capped
+    const minutes = Math.min(
+      policy.baseLockMinutes * 2 ** attempt.lockCount,
+      policy.maxLockMinutes
+    );
+    // Only the first request over the limit locks; the reset of
+    // failedCount stops the others from matching
+    await LoginAttempt.updateOne(
+      { _id: attempt._id, failedCount: { $gte: policy.maxFailures } },
+      {
+        $set: {
+          lockedUntil: new Date(now.getTime() + minutes * 60 * 1000),
+          failedCount: 0,
+        },
+        $inc: { lockCount: 1 },
+      }
+    );
+  }
+};
+
+export const recordLoginFailure = async (email: string, ip: string) => {
+  await Promise.all([
+    registerFailure(accountKey(email), ACCOUNT_POLICY),
+    registerFailure(ipKey(ip), IP_POLICY),
+  ]);
+};
+
+// Used on successful login and by admins unlocking an account. lockCount
+// is kept so the next lockout still escalates. The IP counter is left to
+// decay on its own.
+export const clearLoginFailures = (email: string) =>
+  LoginAttempt.updateOne(
+    { key: accountKey(email) },
+    { $set: { failedCount: 0, lastFailedAt: null, lockedUntil: null } }
+  );
+
+// Drops the counter entirely, for accounts whose email is erased
+export const forgetLoginFailures = (email: string) =>
+  LoginAttempt.deleteOne({ key: accountKey(email) });
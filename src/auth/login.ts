@@ -0,0 +1,116 @@
+import mongoose from "mongoose";
+import { Request } from "express";
+import { Trader } from "../trader/model";
+import { User } from "../user/model";
+import { LoginEvent } from "./model";
+import { createSession, signPurposeToken } from "./token";
+import { getPendingConsents } from "../consent/service";
+import { withLicenceStatus } from "../trader/licence";
+
+// Time allowed between the first login step and the TOTP step
+const MFA_CHALLENGE_TTL_MINUTES = 5;
+// Time allowed to pick a new password when an admin forced a change
+const PASSWORD_CHANGE_TTL_MINUTES = 10;
+
+interface LoginUser {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  role: string;
+}
+
+export type LoginMethod =
+  | "password"
+  | "2fa"
+  | "oidc"
+  | "password-change"
+  | "magic-link";
+
+interface LoginOptions {
+  mfaVerified?: boolean;
+  method?: LoginMethod;
+}
+
+interface LoginEventDetails {
+  userId?: mongoose.Types.ObjectId | string | null;
+  email?: string;
+  method: LoginMethod;
+  success: boolean;
+  failureReason?: string;
+  sessionId?: string;
+}
+
+/**
+ * Store a login attempt for the login history. Never throws: a failed write
+ * must not block the login itself.
+ */
+export const recordLoginEvent = async (
+  req: Request,
+  details: LoginEventDetails
+) => {
+  try {
+    await LoginEvent.create({
+      ...details,
+      ip: req.ip || "",
+      userAgent: req.headers["user-agent"] || "",
+    });
+  } catch (error) {
+    console.error("Error recording login event:", error);
+  }
+};
+
+/**
+ * Challenge token exchanged at /auth/2fa/verify for a normal login
+ */
+export const signMfaChallenge = (userId: string) =>
+  signPurposeToken(userId, "mfa-challenge", MFA_CHALLENGE_TTL_MINUTES * 60);
+
+/**
+ * Token exchanged at /auth/complete-password-change when the password must
+ * be changed before the login can finish
+ */
+export const signPasswordChangeChallenge = (userId: string) =>
+  signPurposeToken(userId, "password-change", PASSWORD_CHANGE_TTL_MINUTES * 60);
+
+/**
+ * Final step shared by every login flow: start the session, stamp lastLogin
+ * and build the `data` object returned by /login
+ */
+export const completeLogin = async (
+  user: LoginUser,
+  req: Request,
+  options: LoginOptions = {}
+) => {
+  // Fetch trader information
+  const trader = await Trader.findOne({ userId: user._id });
+
+  // Start a server-side session and issue access/refresh tokens
+  const { token, refreshToken, sessionId } = await createSession(user, req, {
+    mfaVerified: options.mfaVerified,
+  });
+
+  await recordLoginEvent(req, {
+    userId: user._id,
+    email: user.email,
+    method: options.method || "password",
+    success: true,
+    sessionId,
+  });
+
+  // Update last login time; logging in also answers a dormancy warning
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { lastLogin: new Date(), dormancyWarningSentAt: null } }
+  );
+
+  return {
+    userId: user._id,
+    email: user.email,
+    role: user.role,
+    traderId: trader?._id,
+    traderInfo: trader ? withLicenceStatus(trader) : null,
+    token,
+    refreshToken,
+    // New terms or privacy notice versions the frontend must ask about
+    pendingConsents: await getPendingConsents(user._id),
+  };
+};
@@ -0,0 +1,13 @@
+import nodemailer from "nodemailer";
+
+// Configure Nodemailer transport with Mailtrap
+export const transporter = nodemailer.createTransport({
+  host: process.env.MAILTRAP_HOST,
+  port: Number(process.env.MAILTRAP_PORT),
+  auth: {
+    user: process.env.MAILTRAP_USER,
+    pass: process.env.MAILTRAP_PASS,
+  },
+});
+
+export const MAIL_FROM = "noreply@example.com";
@@ -0,0 +1,138 @@
+import mongoose from "mongoose";
+
+const passwordResetSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+      index: true,
+    },
+    // Only the SHA-256 hash of the emailed token is stored
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date, default: null },
+    revokedAt: { type: Date, default: null },
+    requestedIp: { type: String, default: "" },
+  },
+  { timestamps: true }
+);
+
+passwordResetSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const PasswordReset = mongoose.model(
+  "passwordresets",
+  passwordResetSchema
+);
+
+// Passwordless login links; like reset links they are stored hashed and used once
+const magicLinkSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+      index: true,
+    },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date, default: null },
+    revokedAt: { type: Date, default: null },
+    requestedIp: { type: String, default: "" },
+  },
+  { timestamps: true }
+);
+
+magicLinkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const MagicLink = mongoose.model("magiclinks", magicLinkSchema);
+
+// Last time an email of a kind was requested for an address, kept whether or
+// not the address belongs to an account so responses do not reveal that
+const emailCooldownSchema = new mongoose.Schema({
+  // "<purpose>:<lowercased email>"
+  key: { type: String, required: true, unique: true },
+  sentAt: { type: Date, required: true },
+  expiresAt: { type: Date, required: true },
+});
+
+emailCooldownSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const EmailCooldown = mongoose.model(
+  "emailcooldowns",
+  emailCooldownSchema
+);
+
+// Failed login counters, keyed by "account:<email>" or "ip:<address>"
+const loginAttemptSchema = new mongoose.Schema(
+  {
+    key: { type: String, required: true, unique: true },
+    failedCount: { type: Number, default: 0 },
+    lastFailedAt: { type: Date, default: null },
+    // Number of lockouts so far; each one doubles the next lock duration
+    lockCount: { type: Number, default: 0 },
+    lockedUntil: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+export const LoginAttempt = mongoose.model("loginattempts", loginAttemptSchema);
+
+// One row per sign-in attempt, successful or not. Kept for a year.
+const loginEventSchema = new mongoose.Schema(
+  {
+    // Null when the email did not match an account
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      default: null,
+    },
+    email: { type: String, default: "" },
+    method: {
+      type: String,
+      enum: ["password", "2fa", "oidc", "password-change", "magic-link"],
+      required: true,
+    },
+    success: { type: Boolean, required: true },
+    failureReason: { type: String, default: "" },
+    sessionId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "sessions",
+      default: null,
+    },
+    ip: { type: String, default: "" },
+    userAgent: { type: String, default: "" },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+loginEventSchema.index({ userId: 1, createdAt: -1 });
+loginEventSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 365 * 24 * 60 * 60 }
+);
+
+export const LoginEvent = mongoose.model("loginevents", loginEventSchema);
+
+// Asymmetric keys used to sign JWTs. Public keys are published at
+// /.well-known/jwks.json; private keys are stored encrypted.
+const signingKeySchema = new mongoose.Schema(
+  {
+    kid: { type: String, required: true, unique: true },
+    algorithm: { type: String, enum: ["RS256"], default: "RS256" },
+    publicKey: { type: String, required: true },
+    encryptedPrivateKey: { type: String, required: true, select: false },
+    // New keys are published before they sign anything so every instance
+    // can verify them by the time they are used
+    activatesAt: { type: Date, required: true },
+    // Set once a newer key has taken over signing
+    rotatedAt: { type: Date, default: null },
+    // Removed from the key ring once every token it signed has expired
+    expiresAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+signingKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SigningKey = mongoose.model("signingkeys", signingKeySchema);
@@ -0,0 +1,126 @@
+import bcrypt from "bcrypt";
+
+const envFlag = (value: string | undefined, fallback: boolean) =>
+  value === undefined ? fallback : value === "true";
+
+// Configurable through the environment; read on use because .env is loaded
+// after the modules are imported
+export const getPasswordPolicy = () => ({
+  minLength: Number(process.env.PASSWORD_MIN_LENGTH) || 10,
+  requireLowercase: envFlag(process.env.PASSWORD_REQUIRE_LOWERCASE, true),
+  requireUppercase: envFlag(process.env.PASSWORD_REQUIRE_UPPERCASE, true),
+  requireDigit: envFlag(process.env.PASSWORD_REQUIRE_DIGIT, true),
+  requireSymbol: envFlag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+  // Number of previous passwords that may not be reused
+  historyCount: Number(process.env.PASSWORD_HISTORY_COUNT ?? 5),
+});
+
+// Parts of the email or name shorter than this are not checked
+const MIN_PERSONAL_TOKEN_LENGTH = 3;
+
+interface PasswordContext {
+  email?: string;
+  name?: string;
+}
+
+/**
+ * Return the policy rules the password breaks; an empty array means it is
+ * acceptable
+ */
+export const checkPasswordPolicy = (
+  password: string,
+  context: PasswordContext = {}
+): string[] => {
+  const policy = getPasswordPolicy();
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(
+      `Password must be at least ${policy.minLength} characters long`
+    );
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push("Password must contain a lowercase letter");
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push("Password must contain an uppercase letter");
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push("Password must contain a digit");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push("Password must contain a symbol");
+  }
+
+  const lowered = password.toLowerCase();
+  const personalTokens = [
+    ...(context.email ? [context.email.split("@")[0]] : []),
+    ...(context.name ? context.name.split(/\s+/) : []),
+  ]
+    .map((token) => token.toLowerCase())
+    .filter((token) => token.length >= MIN_PERSONAL_TOKEN_LENGTH);
+
+  if (personalTokens.some((token) => lowered.includes(token))) {
+    violations.push("Password must not contain your email or name");
+  }
+
+  return violations;
+};
+
+interface PasswordHolder {
+  password: string;
+  passwordHistory?: string[];
+}
+
+/**
+ * True when the password matches the current one or one of the last
+ * `historyCount` passwords. Always false when the history is turned off.
+ * The user must be loaded with +passwordHistory.
+ */
+export const isRecentPassword = async (
+  user: PasswordHolder,
+  password: string
+) => {
+  const { historyCount } = getPasswordPolicy();
+  // slice(-0) would return the whole history
+  if (historyCount <= 0) {
+    return false;
+  }
+  const recent = [
+    user.password,
+    ...(user.passwordHistory || []).slice(-historyCount),
+  ];
+  for (const hash of recent) {
+    if (await bcrypt.compare(password, hash)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+interface PasswordUpdate {
+  password: string;
+  passwordHistory: string[];
+  passwordChangedAt: Date;
+  mustChangePassword: boolean;
+}
+
+/**
+ * Build the update that replaces the current password, moving the old hash
+ * into the history
+ */
+export const buildPasswordUpdate = async (
+  user: PasswordHolder,
+  newPassword: string
+): Promise<PasswordUpdate> => {
+  const { historyCount } = getPasswordPolicy();
+  return {
+    password: await bcrypt.hash(newPassword, 10),
+    passwordHistory:
+      historyCount > 0
+        ? [...(user.passwordHistory || []), user.password].slice(-historyCount)
+        : [],
+    passwordChangedAt: new Date(),
+    mustChangePassword: false,
+  };
+};
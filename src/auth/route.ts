@@ -1,9 +1,43 @@
 import express, { Request, Response } from "express";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
 import { Trader } from "../trader/model";
-import nodemailer from "nodemailer";
 import { User } from "../user/model";
+import { EmailCooldown, MagicLink, PasswordReset } from "./model";
+import { MAIL_FROM, transporter } from "./mailer";
+import { sendVerificationEmail } from "./verification";
+import { verifyToken } from "../../middleware/middleware";
+import {
+  completeLogin,
+  recordLoginEvent,
+  signMfaChallenge,
+  signPasswordChangeChallenge,
+} from "./login";
+import {
+  buildPasswordUpdate,
+  checkPasswordPolicy,
+  getPasswordPolicy,
+  isRecentPassword,
+} from "./password";
+import {
+  clearLoginFailures,
+  getLockedUntil,
+  recordLoginFailure,
+} from "./lockout";
+import {
+  hashToken,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+  signAccessToken,
+  signPurposeToken,
+  verifyPurposeToken,
+} from "./token";
+import {
+  getCurrentDocuments,
+  isRequiredDocument,
+  recordConsents,
+} from "../consent/service";
 
 export const auth = express.Router();
 
@@ -14,21 +48,116 @@ interface ResponseObject {
   data?: object;
   message?: string;
 }
-// Configure Nodemailer transport with Mailtrap
-const transporter = nodemailer.createTransport({
-  host: process.env.MAILTRAP_HOST,
-  port: Number(process.env.MAILTRAP_PORT),
-  auth: {
-    user: process.env.MAILTRAP_USER,
-    pass: process.env.MAILTRAP_PASS,
-  },
-});
+
+// Password reset links are valid for 15 minutes and can be used once
+const PASSWORD_RESET_TTL_MINUTES = 15;
+
+// bcrypt hash of a random string, compared when the email is unknown
+const DUMMY_PASSWORD_HASH =
+  "$2b$10$hW13Wg5fPKmHNQ/vUQLnMOthfCNHYd6pRBvCyUqjgQm8Kxj/G6I8a";
+
+// Magic login links are valid for 15 minutes and can be used once
+const MAGIC_LINK_TTL_MINUTES = 15;
+// Minimum wait between two magic links for the same account
+const MAGIC_LINK_COOLDOWN_SECONDS = 60;
+
+// Minimum wait between two verification email requests for the same address
+const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+interface PasswordOwner {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  password: string;
+  passwordHistory?: string[];
+}
+
+/**
+ * Check a new password against the policy and the password history. Returns
+ * the error response to send, or null when the password is acceptable.
+ */
+const validateNewPassword = async (
+  user: PasswordOwner,
+  newPassword: string
+): Promise<ResponseObject | null> => {
+  const trader = await Trader.findOne({ userId: user._id }).select("name");
+  const violations = checkPasswordPolicy(newPassword, {
+    email: user.email,
+    name: trader?.name,
+  });
+  if (violations.length > 0) {
+    return {
+      code: "Error-11-0001",
+      status: "Error",
+      message: "Password does not meet the password policy.",
+      data: { violations },
+    };
+  }
+
+  if (await isRecentPassword(user, newPassword)) {
+    return {
+      code: "Error-11-0002",
+      status: "Error",
+      message: `Password must differ from your last ${
+        getPasswordPolicy().historyCount
+      } passwords.`,
+    };
+  }
+
+  return null;
+};
+
+const sendPasswordChangedEmail = async (email: string) => {
+  try {
+    await transporter.sendMail({
+      from: MAIL_FROM,
+      to: email,
+      subject: "Your password was changed",
+      text: `The password for your B-Trade account was changed on ${new Date().toISOString()}. If you did not make this change, please reset your password immediately and contact support.`,
+    });
+  } catch (mailError) {
+    console.error("Error sending password changed email:", mailError);
+  }
+};
+
+// MongoDB duplicate key error
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Start the cooldown for `key` unless it is still running. Returns the
+ * seconds left when it is.
+ */
+const claimEmailCooldown = async (key: string, seconds: number) => {
+  const now = new Date();
+  try {
+    // Matches nothing while the cooldown runs, so the upsert's insert
+    // collides with the existing key
+    await EmailCooldown.updateOne(
+      { key, sentAt: { $lte: new Date(now.getTime() - seconds * 1000) } },
+      {
+        $set: {
+          sentAt: now,
+          expiresAt: new Date(now.getTime() + seconds * 1000),
+        },
+      },
+      { upsert: true }
+    );
+    return 0;
+  } catch (error) {
+    if ((error as { code?: number }).code !== DUPLICATE_KEY) throw error;
+    const existing = await EmailCooldown.findOne({ key });
+    const elapsed = existing
+      ? (now.getTime() - existing.sentAt.getTime()) / 1000
+      : seconds;
+    return Math.max(1, Math.ceil(seconds - elapsed));
+  }
+};
 
 /**
  * @swagger
  * /forgot-password:
  *   post:
  *     summary: Request password reset email
+ *     description: Sends a single-use reset link. Any earlier unused link for the same user is revoked.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -146,15 +275,28 @@ auth.post("/forgot-password", async (req, res) => {
       });
     }
 
-    const resetToken = jwt.sign(
-      { userId: user._id, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: "5m" }
+    // Only the newest reset link may be used
+    await PasswordReset.updateMany(
+      { userId: user._id, usedAt: null, revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+
+    const resetToken = signPurposeToken(
+      user._id.toString(),
+      "password-reset",
+      PASSWORD_RESET_TTL_MINUTES * 60
     );
 
+    await PasswordReset.create({
+      userId: user._id,
+      tokenHash: hashToken(resetToken),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+      requestedIp: req.ip || "",
+    });
+
     const resetUrl = `${process.env.FRONTEND_URL}/reset-password?token=${resetToken}`;
     await transporter.sendMail({
-      from: "noreply@example.com",
+      from: MAIL_FROM,
       to: email,
       subject: "Password Reset Request",
       text: `Click the following link to reset your password: ${resetUrl}`,
@@ -179,6 +321,7 @@ auth.post("/forgot-password", async (req, res) => {
  * /auth/reset-password:
  *   post:
  *     summary: Reset user password using reset token
+ *     description: The reset token can be used once. On success every session of the user is revoked and a confirmation email is sent.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -291,7 +434,7 @@ auth.post("/auth/reset-password", async (req: Request, res: Response) => {
 
     let decoded;
     try {
-      decoded = jwt.verify(token, process.env.JWT_SECRET!) as jwt.JwtPayload;
+      decoded = verifyPurposeToken(token, "password-reset");
     } catch (err) {
       console.error("Token verification failed:", err);
       return res.status(400).json({
@@ -301,7 +444,7 @@ auth.post("/auth/reset-password", async (req: Request, res: Response) => {
       });
     }
 
-    const user = await User.findById(decoded.userId);
+    const user = await User.findById(decoded.userId).select("+passwordHistory");
 
     if (!user) {
       return res.status(404).json({
@@ -311,11 +454,42 @@ auth.post("/auth/reset-password", async (req: Request, res: Response) => {
       });
     }
 
+    // Check the new password before the link is used up so the user can retry
+    const passwordError = await validateNewPassword(user, newPassword);
+    if (passwordError) {
+      return res.status(400).json(passwordError);
+    }
+
+    // Consume the stored token atomically so it can only be used once
+    const resetRecord = await PasswordReset.findOneAndUpdate(
+      {
+        tokenHash: hashToken(token),
+        userId: decoded.userId,
+        usedAt: null,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      },
+      { $set: { usedAt: new Date() } }
+    );
+
+    if (!resetRecord) {
+      return res.status(400).json({
+        code: "Error-01-0003",
+        status: "Error",
+        message: "Invalid or expired token. Please request a new reset link.",
+      });
+    }
+
     console.log("Resetting password for user:", user.email);
 
-    user.password = await bcrypt.hash(newPassword, 10);
+    user.set(await buildPasswordUpdate(user, newPassword));
     await user.save();
 
+    // Whoever held the old password must not stay logged in
+    await revokeAllSessions(user._id, "password-reset");
+
+    await sendPasswordChangedEmail(user.email);
+
     return res.status(200).json({
       code: "Success-01-0003",
       status: "Success",
@@ -337,6 +511,7 @@ auth.post("/auth/reset-password", async (req: Request, res: Response) => {
  * /login:
  *   post:
  *     summary: Authenticate user and get access token
+ *     description: When an admin has forced a password change the response carries `passwordChangeRequired` and a `changeToken`; finish with /auth/complete-password-change. When two-factor authentication is enabled the response carries `mfaRequired` and a `challengeToken` instead of tokens. Finish the login with /auth/2fa/verify.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -392,11 +567,29 @@ auth.post("/auth/reset-password", async (req: Request, res: Response) => {
  *                       type: string
  *                       description: Trader's unique identifier if available
  *                     traderInfo:
- *                       type: object
- *                       description: Detailed trader information if available
+ *                       $ref: '#/components/schemas/TraderWithLicence'
+ *                       description: Detailed trader information with the computed licence status, if available
  *                     token:
  *                       type: string
- *                       description: JWT authentication token
+ *                       description: Short-lived JWT access token (15 minutes)
+ *                     refreshToken:
+ *                       type: string
+ *                       description: Rotating refresh token for /auth/refresh
+ *                     pendingConsents:
+ *                       type: array
+ *                       description: Current terms or privacy notice the user has not accepted yet. Show them and send the answers to POST /consent/me.
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           documentId:
+ *                             type: string
+ *                           type:
+ *                             type: string
+ *                             example: 'terms'
+ *                           version:
+ *                             type: string
+ *                           title:
+ *                             type: string
  *       400:
  *         description: Missing required fields
  *         content:
@@ -414,7 +607,7 @@ auth.post("/auth/reset-password", async (req: Request, res: Response) => {
  *                   type: string
  *                   example: 'Missing required field.'
  *       401:
- *         description: Invalid credentials or header
+ *         description: Invalid credentials or header. Unknown emails and wrong passwords return the same error.
  *         content:
  *           application/json:
  *             schema:
@@ -428,9 +621,9 @@ auth.post("/auth/reset-password", async (req: Request, res: Response) => {
  *                   example: 'Error'
  *                 message:
  *                   type: string
- *                   example: 'Invalid password. Please try again.'
+ *                   example: 'Invalid email or password.'
  *       403:
- *         description: Account not active
+ *         description: Account not active (Error-02-0005) or email not verified (Error-02-0006)
  *         content:
  *           application/json:
  *             schema:
@@ -445,8 +638,8 @@ auth.post("/auth/reset-password", async (req: Request, res: Response) => {
  *                 message:
  *                   type: string
  *                   example: 'Account is Suspended. Please contact support.'
- *       404:
- *         description: User not found
+ *       429:
+ *         description: Too many failed attempts for this account or IP address
  *         content:
  *           application/json:
  *             schema:
@@ -454,13 +647,19 @@ auth.post("/auth/reset-password", async (req: Request, res: Response) => {
  *               properties:
  *                 code:
  *                   type: string
- *                   example: 'Error-02-0003'
+ *                   example: 'Error-02-0008'
  *                 status:
  *                   type: string
  *                   example: 'Error'
  *                 message:
  *                   type: string
- *                   example: 'User not found.'
+ *                   example: 'Too many failed login attempts. Please try again after 2025-04-01T10:15:00.000Z.'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     lockedUntil:
+ *                       type: string
+ *                       format: date-time
  *       500:
  *         description: Internal server error
  *         content:
@@ -491,7 +690,6 @@ auth.post("/login", async (req: Request, res: Response) => {
     return res.status(401).json(response);
   }
   const { email, password } = req.body;
-  console.log(email, password);
 
   if (!email || !password) {
     const response: ResponseObject = {
@@ -503,31 +701,67 @@ auth.post("/login", async (req: Request, res: Response) => {
   }
 
   try {
-    // Find user by email
-    const user = await User.findOne({ email });
-    console.log(user);
-    if (!user) {
+    const ip = req.ip || "";
+
+    // Refuse to check credentials while the account or IP is locked out
+    const lockedUntil = await getLockedUntil(email, ip);
+    if (lockedUntil) {
+      await recordLoginEvent(req, {
+        email,
+        method: "password",
+        success: false,
+        failureReason: "locked",
+      });
+      res.setHeader(
+        "Retry-After",
+        Math.ceil((lockedUntil.getTime() - Date.now()) / 1000).toString()
+      );
       const response: ResponseObject = {
-        code: "Error-02-0003",
+        code: "Error-02-0008",
         status: "Error",
-        message: "User not found.",
+        message: `Too many failed login attempts. Please try again after ${lockedUntil.toISOString()}.`,
+        data: { lockedUntil },
       };
-      return res.status(404).json(response);
+      return res.status(429).json(response);
     }
 
-    // Validate password
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
+    // Find user by email
+    const user = await User.findOne({ email });
+
+    // Compare against a dummy hash when the user does not exist so both
+    // cases take the same time and return the same error
+    const isPasswordValid = await bcrypt.compare(
+      password,
+      user ? user.password : DUMMY_PASSWORD_HASH
+    );
+    if (!user || !isPasswordValid) {
+      await recordLoginFailure(email, ip);
+      await recordLoginEvent(req, {
+        userId: user?._id,
+        email,
+        method: "password",
+        success: false,
+        failureReason: "invalid-credentials",
+      });
       const response: ResponseObject = {
         code: "Error-02-0004",
         status: "Error",
-        message: "Invalid password. Please try again.",
+        message: "Invalid email or password.",
       };
       return res.status(401).json(response);
     }
 
+    await clearLoginFailures(email);
+
     // Check user status
     if (user.status !== "Active") {
+      await recordLoginEvent(req, {
+        userId: user._id,
+        email,
+        method: "password",
+        success: false,
+        failureReason: "inactive",
+      });
       const response: ResponseObject = {
         code: "Error-02-0005",
         status: "Error",
@@ -536,38 +770,58 @@ auth.post("/login", async (req: Request, res: Response) => {
       return res.status(403).json(response);
     }
 
-    // Fetch trader information
-    const trader = await Trader.findOne({ userId: user._id });
+    // Block login until the email address has been confirmed
+    if (!user.emailVerified) {
+      await recordLoginEvent(req, {
+        userId: user._id,
+        email,
+        method: "password",
+        success: false,
+        failureReason: "email-not-verified",
+      });
+      const response: ResponseObject = {
+        code: "Error-02-0006",
+        status: "Error",
+        message:
+          "Email address has not been verified. Please check your inbox.",
+      };
+      return res.status(403).json(response);
+    }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      {
-        algorithm: "HS256",
-        expiresIn: "2h",
-      }
-    );
+    // An admin asked for a new password; the login finishes after the change
+    if (user.mustChangePassword) {
+      const response: ResponseObject = {
+        code: "Success-01-0010",
+        status: "Success",
+        message: "Password change required",
+        data: {
+          passwordChangeRequired: true,
+          changeToken: signPasswordChangeChallenge(user._id.toString()),
+        },
+      };
+      return res.status(200).json(response);
+    }
 
-    // Update last login time
-    await User.updateOne(
-      { _id: user._id },
-      { $set: { lastLogin: new Date() } }
-    );
+    // Second factor enabled: hand out a short-lived challenge instead of tokens
+    if (user.twoFactor?.enabled) {
+      const response: ResponseObject = {
+        code: "Success-01-0009",
+        status: "Success",
+        message: "Two-factor authentication required",
+        data: {
+          mfaRequired: true,
+          challengeToken: signMfaChallenge(user._id.toString()),
+        },
+      };
+      return res.status(200).json(response);
+    }
 
     // Prepare response
     const response: ResponseObject = {
       code: "Success-01-0002",
       status: "Success",
       message: "Login successful",
-      data: {
-        userId: user._id,
-        email: user.email,
-        role: user.role,
-        traderId: trader?._id,
-        traderInfo: trader,
-        token,
-      },
+      data: await completeLogin(user, req),
     };
 
     res.status(200).json(response);
@@ -587,6 +841,7 @@ auth.post("/login", async (req: Request, res: Response) => {
  * /register:
  *   post:
  *     summary: Register a new user and trader
+ *     description: The account cannot log in until the emailed verification link is opened.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -622,6 +877,11 @@ auth.post("/login", async (req: Request, res: Response) => {
  *                 type: string
  *                 format: password
  *                 description: User password
+ *               acceptedDocumentIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Ids from GET /consent/documents the user accepted. Must include the current terms and privacy notice; include the marketing document to opt in.
  *             example:
  *               name: "John Doe"
  *               email: "john@example.com"
@@ -629,6 +889,7 @@ auth.post("/login", async (req: Request, res: Response) => {
  *               idCard: "1234567890123"
  *               company: "Example Co., Ltd."
  *               password: "securePassword123"
+ *               acceptedDocumentIds: ["60d21b4667d0d8992e610c85", "60d21b4667d0d8992e610c86"]
  *     responses:
  *       201:
  *         description: User registered successfully
@@ -645,7 +906,7 @@ auth.post("/login", async (req: Request, res: Response) => {
  *                   example: 'Success'
  *                 message:
  *                   type: string
- *                   example: 'Registration successful'
+ *                   example: 'Registration successful. Please verify your email address to log in.'
  *                 data:
  *                   type: object
  *                   properties:
@@ -664,11 +925,11 @@ auth.post("/login", async (req: Request, res: Response) => {
  *                     role:
  *                       type: string
  *                       description: User's role (default is "user")
- *                     token:
- *                       type: string
- *                       description: JWT authentication token
+ *                     emailVerified:
+ *                       type: boolean
+ *                       description: Always false; a verification link is emailed to the user
  *       400:
- *         description: Missing required fields
+ *         description: Missing required fields, password policy violation or current terms not accepted (Error-18-0005)
  *         content:
  *           application/json:
  *             schema:
@@ -791,14 +1052,54 @@ auth.post("/register", async (req: Request, res: Response) => {
       };
       return res.status(409).json(response);
     }
+    const violations = checkPasswordPolicy(password, { email, name });
+    if (violations.length > 0) {
+      const response: ResponseObject = {
+        code: "Error-11-0001",
+        status: "Error",
+        message: "Password does not meet the password policy.",
+        data: { violations },
+      };
+      return res.status(400).json(response);
+    }
+
+    // The current terms and privacy notice must be accepted to register
+    const acceptedIds: string[] = Array.isArray(req.body.acceptedDocumentIds)
+      ? req.body.acceptedDocumentIds.map(String)
+      : [];
+    const documents = await getCurrentDocuments();
+    const notAccepted = documents.filter(
+      (doc) =>
+        isRequiredDocument(doc.type) &&
+        !acceptedIds.includes(doc._id.toString())
+    );
+    if (notAccepted.length > 0) {
+      const response: ResponseObject = {
+        code: "Error-18-0005",
+        status: "Error",
+        message:
+          "You must accept the current terms of service and privacy notice.",
+        data: {
+          required: notAccepted.map((doc) => ({
+            documentId: doc._id,
+            type: doc.type,
+            version: doc.version,
+          })),
+        },
+      };
+      return res.status(400).json(response);
+    }
+
     // เข้ารหัสพาสเวิร์ด
     const hashedPassword = await bcrypt.hash(password, 10);
 
-    // สร้างผู้ใช้ใหม่
+    // สร้างผู้ใช้ใหม่ - ต้องยืนยันอีเมลก่อนจึงจะเข้าสู่ระบบได้
     const user = new User({
       email,
       password: hashedPassword,
       role: "user",
+      emailVerified: false,
+      passwordChangedAt: new Date(),
     });
     await user.save();
 
@@ -825,24 +1126,36 @@ auth.post("/register", async (req: Request, res: Response) => {
     });
     await trader.save();
 
-    // สร้าง token สำหรับการลงชื่อเข้าใช้อัตโนมัติ
-    const token = jwt.sign(
-      { userId: user._id, role: user.role },
-      process.env.JWT_SECRET || "asdkl",
-      { expiresIn: "1d" }
+    // Optional documents that were not ticked are recorded as declined
+    await recordConsents(
+      user._id,
+      documents.map((document) => ({
+        document,
+        accepted: acceptedIds.includes(document._id.toString()),
+      })),
+      req
     );
 
+    // ส่งอีเมลยืนยันตัวตน - ยังไม่ลงชื่อเข้าใช้อัตโนมัติ
+    try {
+      await sendVerificationEmail(user._id.toString(), user.email);
+    } catch (mailError) {
+      // The user can request a new link through /auth/resend-verification
+      console.error("Error sending verification email:", mailError);
+    }
+
     const response: ResponseObject = {
       code: "Success-01-0001",
       status: "Success",
-      message: "Registration successful",
+      message:
+        "Registration successful. Please verify your email address to log in.",
       data: {
         userId: user._id,
         traderId: trader._id,
         name: trader.name,
         email: trader.email,
         role: user.role,
-        token,
+        emailVerified: false,
       },
     };
 
@@ -862,20 +1175,25 @@ auth.post("/register", async (req: Request, res: Response) => {
 
 /**
  * @swagger
- * /logout:
+ * /auth/verify-email:
  *   post:
- *     summary: Logout user and clear authentication token
+ *     summary: Confirm an email address using the emailed verification token
  *     tags: [Authentication]
  *     requestBody:
- *       required: false
+ *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             properties: {}
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the verification link
  *     responses:
  *       200:
- *         description: User logged out successfully
+ *         description: Email verified
  *         content:
  *           application/json:
  *             schema:
@@ -883,15 +1201,15 @@ auth.post("/register", async (req: Request, res: Response) => {
  *               properties:
  *                 code:
  *                   type: string
- *                   example: 'Success-01-0003'
+ *                   example: 'Success-01-0007'
  *                 status:
  *                   type: string
  *                   example: 'Success'
  *                 message:
  *                   type: string
- *                   example: 'Logged out successfully'
+ *                   example: 'Email verified successfully. You can now log in.'
  *       400:
- *         description: Invalid header
+ *         description: Missing, invalid or expired token, or a token sent to an address the account no longer uses
  *         content:
  *           application/json:
  *             schema:
@@ -899,15 +1217,123 @@ auth.post("/register", async (req: Request, res: Response) => {
  *               properties:
  *                 code:
  *                   type: string
- *                   example: 'Error-01-0001'
+ *                   example: 'Error-01-0003'
  *                 status:
  *                   type: string
  *                   example: 'Error'
  *                 message:
  *                   type: string
- *                   example: 'Invalid Headers'
+ *                   example: 'Invalid or expired verification link. Please request a new one.'
+ *       404:
+ *         description: User not found
  *       500:
  *         description: Internal server error
+ */
+auth.post("/auth/verify-email", async (req: Request, res: Response) => {
+  const contentType = req.headers["content-type"];
+  if (!contentType || contentType !== "application/json") {
+    const response: ResponseObject = {
+      code: "Error-01-0001",
+      status: "Error",
+      message: "Invalid Header.",
+    };
+    return res.status(400).json(response);
+  }
+
+  const { token } = req.body;
+  if (!token) {
+    const response: ResponseObject = {
+      code: "Error-02-0001",
+      status: "Error",
+      message: "Missing required field: token.",
+    };
+    return res.status(400).json(response);
+  }
+
+  try {
+    let decoded;
+    try {
+      decoded = verifyPurposeToken(token, "email-verification");
+    } catch (err) {
+      const response: ResponseObject = {
+        code: "Error-01-0003",
+        status: "Error",
+        message:
+          "Invalid or expired verification link. Please request a new one.",
+      };
+      return res.status(400).json(response);
+    }
+
+    const user = await User.findById(decoded.userId);
+    if (!user) {
+      const response: ResponseObject = {
+        code: "Error-02-0003",
+        status: "Error",
+        message: "User not found.",
+      };
+      return res.status(404).json(response);
+    }
+
+    // Links sent to an earlier address no longer verify the account
+    if (
+      !decoded.email ||
+      decoded.email.toLowerCase() !== user.email.toLowerCase()
+    ) {
+      const response: ResponseObject = {
+        code: "Error-01-0003",
+        status: "Error",
+        message:
+          "Invalid or expired verification link. Please request a new one.",
+      };
+      return res.status(400).json(response);
+    }
+
+    // Opening the link twice is harmless
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+    }
+
+    const response: ResponseObject = {
+      code: "Success-01-0007",
+      status: "Success",
+      message: "Email verified successfully. You can now log in.",
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error verifying email:", error);
+    const response: ResponseObject = {
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/resend-verification:
+ *   post:
+ *     summary: Send a new email verification link
+ *     description: Only one request per email address is accepted every 60 seconds, whether or not the address is registered. The response does not reveal whether the email is registered.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Verification email sent if the account is waiting for verification
  *         content:
  *           application/json:
  *             schema:
@@ -915,37 +1341,305 @@ auth.post("/register", async (req: Request, res: Response) => {
  *               properties:
  *                 code:
  *                   type: string
- *                   example: 'Error-03-0001'
+ *                   example: 'Success-01-0008'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'If the account is waiting for verification, a new link has been sent.'
+ *       429:
+ *         description: Cooldown for this email address has not elapsed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-02-0007'
  *                 status:
  *                   type: string
  *                   example: 'Error'
  *                 message:
  *                   type: string
- *                   example: 'Internal server error.'
+ *                   example: 'Please wait 42 seconds before requesting another email.'
+ *       500:
+ *         description: Internal server error
  */
-// logout route
-auth.post("/logout", (req: Request, res: Response) => {
-  try {
-    const contentType = req.headers["content-type"];
-    // Validate content type
-    if (!contentType || contentType !== "application/json") {
-      const response: ResponseObject = {
-        code: "Error-01-0001",
-        status: "Error",
-        message: "Invalid Headers",
-      };
-      return res.status(400).json(response);
-    }
-
-    res.clearCookie("token", {
-      secure: true,
-      sameSite: "strict",
-    });
-
+auth.post("/auth/resend-verification", async (req: Request, res: Response) => {
+  const contentType = req.headers["content-type"];
+  if (!contentType || contentType !== "application/json") {
     const response: ResponseObject = {
-      code: "Success-01-0003",
-      status: "Success",
-      message: "Logged out successfully",
+      code: "Error-01-0001",
+      status: "Error",
+      message: "Invalid Header.",
+    };
+    return res.status(400).json(response);
+  }
+
+  const { email } = req.body;
+  if (!email) {
+    const response: ResponseObject = {
+      code: "Error-02-0001",
+      status: "Error",
+      message: "Missing required field: email.",
+    };
+    return res.status(400).json(response);
+  }
+
+  try {
+    // Throttled per address whether or not it is registered, so the
+    // response is the same for unknown emails
+    const wait = await claimEmailCooldown(
+      `verification:${String(email).trim().toLowerCase()}`,
+      VERIFICATION_RESEND_COOLDOWN_SECONDS
+    );
+    if (wait > 0) {
+      res.setHeader("Retry-After", wait.toString());
+      const response: ResponseObject = {
+        code: "Error-02-0007",
+        status: "Error",
+        message: `Please wait ${wait} seconds before requesting another email.`,
+      };
+      return res.status(429).json(response);
+    }
+
+    const user = await User.findOne({ email });
+    if (user && !user.emailVerified) {
+      await sendVerificationEmail(user._id.toString(), user.email);
+    }
+
+    const response: ResponseObject = {
+      code: "Success-01-0008",
+      status: "Success",
+      message:
+        "If the account is waiting for verification, a new link has been sent.",
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error resending verification email:", error);
+    const response: ResponseObject = {
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new access/refresh token pair
+ *     description: Refresh tokens are single use. Presenting a refresh token that was already rotated revokes the whole session.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 description: Refresh token returned by /login, /register or a previous refresh
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0005'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Token refreshed successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                     refreshToken:
+ *                       type: string
+ *       400:
+ *         description: Missing refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-02-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Missing required field: refreshToken.'
+ *       401:
+ *         description: Refresh token invalid, expired, revoked or reused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-01-0008'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Session has been revoked. Please log in again.'
+ *       500:
+ *         description: Internal server error
+ */
+auth.post("/auth/refresh", async (req: Request, res: Response) => {
+  const contentType = req.headers["content-type"];
+  if (!contentType || contentType !== "application/json") {
+    const response: ResponseObject = {
+      code: "Error-01-0001",
+      status: "Error",
+      message: "Invalid Header.",
+    };
+    return res.status(401).json(response);
+  }
+
+  const { refreshToken } = req.body;
+  if (!refreshToken || typeof refreshToken !== "string") {
+    const response: ResponseObject = {
+      code: "Error-02-0001",
+      status: "Error",
+      message: "Missing required field: refreshToken.",
+    };
+    return res.status(400).json(response);
+  }
+
+  try {
+    const result = await rotateRefreshToken(refreshToken);
+    if (result.ok === false) {
+      const response: ResponseObject =
+        result.reason === "invalid"
+          ? {
+              code: "Error-01-0003",
+              status: "Error",
+              message: "Invalid refresh token.",
+            }
+          : {
+              code: "Error-01-0008",
+              status: "Error",
+              message: "Session has been revoked. Please log in again.",
+            };
+      return res.status(401).json(response);
+    }
+
+    // Re-read the user so role or status changes apply on the next token
+    const user = await User.findById(result.session.userId);
+    if (!user || user.status !== "Active") {
+      await revokeSession(result.session._id.toString(), "user-inactive");
+      const response: ResponseObject = {
+        code: "Error-02-0005",
+        status: "Error",
+        message: "Account is not active. Please contact support.",
+      };
+      return res.status(403).json(response);
+    }
+
+    const token = signAccessToken({
+      userId: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      sessionId: result.session._id.toString(),
+      mfa: result.session.mfaVerified,
+    });
+
+    const response: ResponseObject = {
+      code: "Success-01-0005",
+      status: "Success",
+      message: "Token refreshed successfully",
+      data: {
+        token,
+        refreshToken: result.refreshToken,
+      },
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error refreshing token:", error);
+    const response: ResponseObject = {
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /logout:
+ *   post:
+ *     summary: Logout the current session
+ *     description: Revokes the session behind the access token. Its access and refresh tokens stop working immediately.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User logged out successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0003'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Logged out successfully'
+ *       401:
+ *         description: Missing, invalid or already revoked token
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-03-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Internal server error.'
+ */
+// logout route
+auth.post("/logout", verifyToken, async (req: Request, res: Response) => {
+  try {
+    await revokeSession(req.user!.sessionId, "logout");
+
+    const response: ResponseObject = {
+      code: "Success-01-0003",
+      status: "Success",
+      message: "Logged out successfully",
     };
     res.status(200).json(response);
   } catch (error) {
@@ -958,3 +1652,601 @@ auth.post("/logout", (req: Request, res: Response) => {
     res.status(500).json(response);
   }
 });
+
+/**
+ * @swagger
+ * /logout-all:
+ *   post:
+ *     summary: Logout every session of the current user
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0006'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Logged out from all sessions'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revokedSessions:
+ *                       type: integer
+ *       401:
+ *         description: Missing, invalid or already revoked token
+ *       500:
+ *         description: Internal server error
+ */
+auth.post("/logout-all", verifyToken, async (req: Request, res: Response) => {
+  try {
+    const result = await revokeAllSessions(req.user!.userId, "logout-all");
+
+    const response: ResponseObject = {
+      code: "Success-01-0006",
+      status: "Success",
+      message: "Logged out from all sessions",
+      data: {
+        revokedSessions: result.modifiedCount,
+      },
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error during logout-all:", error);
+    const response: ResponseObject = {
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/change-password:
+ *   post:
+ *     summary: Change the password of the logged-in user
+ *     description: The new password must meet the password policy and differ from recent passwords. Every session is revoked and a new token pair is returned.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 format: password
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Password changed; new tokens issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-11-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Password changed successfully'
+ *       400:
+ *         description: Missing fields, policy violation or reused password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-11-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Password does not meet the password policy.'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     violations:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       401:
+ *         description: Current password is wrong
+ *       500:
+ *         description: Internal server error
+ */
+auth.post(
+  "/auth/change-password",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      const response: ResponseObject = {
+        code: "Error-02-0001",
+        status: "Error",
+        message: "Missing required fields: currentPassword and newPassword.",
+      };
+      return res.status(400).json(response);
+    }
+
+    try {
+      const user = await User.findById(req.user!.userId).select(
+        "+passwordHistory"
+      );
+      if (!user) {
+        const response: ResponseObject = {
+          code: "Error-02-0003",
+          status: "Error",
+          message: "User not found.",
+        };
+        return res.status(404).json(response);
+      }
+
+      if (!(await bcrypt.compare(currentPassword, user.password))) {
+        const response: ResponseObject = {
+          code: "Error-11-0004",
+          status: "Error",
+          message: "Current password is incorrect.",
+        };
+        return res.status(401).json(response);
+      }
+
+      const passwordError = await validateNewPassword(user, newPassword);
+      if (passwordError) {
+        return res.status(400).json(passwordError);
+      }
+
+      user.set(await buildPasswordUpdate(user, newPassword));
+      await user.save();
+
+      // Sign out everywhere else and hand this device a fresh session
+      await revokeAllSessions(user._id, "password-changed");
+      await sendPasswordChangedEmail(user.email);
+
+      const response: ResponseObject = {
+        code: "Success-11-0001",
+        status: "Success",
+        message: "Password changed successfully",
+        data: await completeLogin(user, req, {
+          mfaVerified: req.user!.mfa,
+          method: "password-change",
+        }),
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      console.error("Error changing password:", error);
+      const response: ResponseObject = {
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error.",
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/complete-password-change:
+ *   post:
+ *     summary: Finish a login that requires a new password
+ *     description: Exchanges the `changeToken` returned by /login and a new password for the normal /login response, or the two-factor challenge when 2FA is enabled. All other sessions of the user are signed out.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - changeToken
+ *               - newPassword
+ *             properties:
+ *               changeToken:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Password changed and login successful
+ *       400:
+ *         description: Missing fields, policy violation or reused password
+ *       401:
+ *         description: Invalid or expired change token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-11-0003'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Password change request is invalid or has expired. Please log in again.'
+ *       500:
+ *         description: Internal server error
+ */
+auth.post(
+  "/auth/complete-password-change",
+  async (req: Request, res: Response) => {
+    const { changeToken, newPassword } = req.body;
+
+    if (!changeToken || !newPassword) {
+      const response: ResponseObject = {
+        code: "Error-02-0001",
+        status: "Error",
+        message: "Missing required fields: changeToken and newPassword.",
+      };
+      return res.status(400).json(response);
+    }
+
+    try {
+      let decoded;
+      try {
+        decoded = verifyPurposeToken(changeToken, "password-change");
+      } catch (err) {
+        decoded = null;
+      }
+
+      const user = decoded
+        ? await User.findById(decoded.userId).select("+passwordHistory")
+        : null;
+      if (!user || !user.mustChangePassword) {
+        const response: ResponseObject = {
+          code: "Error-11-0003",
+          status: "Error",
+          message:
+            "Password change request is invalid or has expired. Please log in again.",
+        };
+        return res.status(401).json(response);
+      }
+
+      const passwordError = await validateNewPassword(user, newPassword);
+      if (passwordError) {
+        return res.status(400).json(passwordError);
+      }
+
+      user.set(await buildPasswordUpdate(user, newPassword));
+      await user.save();
+      // Sessions started with the old password end, as after a reset
+      await revokeAllSessions(user._id, "password-changed");
+      await sendPasswordChangedEmail(user.email);
+
+      if (user.twoFactor?.enabled) {
+        const response: ResponseObject = {
+          code: "Success-01-0009",
+          status: "Success",
+          message: "Two-factor authentication required",
+          data: {
+            mfaRequired: true,
+            challengeToken: signMfaChallenge(user._id.toString()),
+          },
+        };
+        return res.status(200).json(response);
+      }
+
+      const response: ResponseObject = {
+        code: "Success-01-0002",
+        status: "Success",
+        message: "Login successful",
+        data: await completeLogin(user, req, { method: "password-change" }),
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      console.error("Error completing password change:", error);
+      const response: ResponseObject = {
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error.",
+      };
+      res.status(500).json(response);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/magic-link:
+ *   post:
+ *     summary: Email a one-time login link instead of using a password
+ *     description: The response is the same whether or not the email belongs to an account. Links expire after 15 minutes, can be used once, and requesting a new link invalidates older ones.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0011'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'If an account exists for this email, a login link has been sent.'
+ *       400:
+ *         description: Invalid header or missing email
+ *       500:
+ *         description: Internal server error
+ */
+auth.post("/auth/magic-link", async (req: Request, res: Response) => {
+  const contentType = req.headers["content-type"];
+  if (!contentType || contentType !== "application/json") {
+    const response: ResponseObject = {
+      code: "Error-01-0001",
+      status: "Error",
+      message: "Invalid Header.",
+    };
+    return res.status(400).json(response);
+  }
+
+  const { email } = req.body;
+  if (!email) {
+    const response: ResponseObject = {
+      code: "Error-02-0001",
+      status: "Error",
+      message: "Missing required field: email.",
+    };
+    return res.status(400).json(response);
+  }
+
+  try {
+    // Silently skip repeated requests so the response never reveals
+    // accounts. Claimed atomically so parallel requests send one link.
+    const cooldownLeft = await claimEmailCooldown(
+      `magic-link:${String(email).toLowerCase()}`,
+      MAGIC_LINK_COOLDOWN_SECONDS
+    );
+    const user = cooldownLeft > 0 ? null : await User.findOne({ email });
+
+    if (user) {
+      // Only the newest link may be used
+      await MagicLink.updateMany(
+        { userId: user._id, usedAt: null, revokedAt: null },
+        { $set: { revokedAt: new Date() } }
+      );
+
+      const loginToken = signPurposeToken(
+        user._id.toString(),
+        "magic-link",
+        MAGIC_LINK_TTL_MINUTES * 60
+      );
+
+      await MagicLink.create({
+        userId: user._id,
+        tokenHash: hashToken(loginToken),
+        expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000),
+        requestedIp: req.ip || "",
+      });
+
+      const loginUrl = `${process.env.FRONTEND_URL}/magic-login?token=${loginToken}`;
+      await transporter.sendMail({
+        from: MAIL_FROM,
+        to: user.email,
+        subject: "Your B-Trade login link",
+        text: `Click the following link within ${MAGIC_LINK_TTL_MINUTES} minutes to log in to B-Trade: ${loginUrl}\n\nIf you did not request this link, you can ignore this email.`,
+      });
+    }
+
+    const response: ResponseObject = {
+      code: "Success-01-0011",
+      status: "Success",
+      message:
+        "If an account exists for this email, a login link has been sent.",
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error sending magic link:", error);
+    const response: ResponseObject = {
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /auth/magic-link/verify:
+ *   post:
+ *     summary: Log in with a magic link token
+ *     description: Applies the same account checks as /login and returns the same response, including the password change and two-factor steps. Using the link also confirms the email address.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the emailed link
+ *     responses:
+ *       200:
+ *         description: Login successful, or a further login step is required
+ *       400:
+ *         description: Missing, invalid, expired or already used token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-01-0003'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Invalid or expired login link. Please request a new one.'
+ *       403:
+ *         description: Account is not active
+ *       500:
+ *         description: Internal server error
+ */
+auth.post("/auth/magic-link/verify", async (req: Request, res: Response) => {
+  const { token } = req.body;
+  if (!token) {
+    const response: ResponseObject = {
+      code: "Error-02-0001",
+      status: "Error",
+      message: "Missing required field: token.",
+    };
+    return res.status(400).json(response);
+  }
+
+  const invalidLink: ResponseObject = {
+    code: "Error-01-0003",
+    status: "Error",
+    message: "Invalid or expired login link. Please request a new one.",
+  };
+
+  try {
+    let decoded;
+    try {
+      decoded = verifyPurposeToken(token, "magic-link");
+    } catch (err) {
+      return res.status(400).json(invalidLink);
+    }
+
+    // Consume the stored token atomically so it can only be used once
+    const link = await MagicLink.findOneAndUpdate(
+      {
+        tokenHash: hashToken(token),
+        userId: decoded.userId,
+        usedAt: null,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      },
+      { $set: { usedAt: new Date() } }
+    );
+    if (!link) {
+      return res.status(400).json(invalidLink);
+    }
+
+    const user = await User.findById(decoded.userId);
+    if (!user) {
+      return res.status(400).json(invalidLink);
+    }
+
+    // Check user status
+    if (user.status !== "Active") {
+      await recordLoginEvent(req, {
+        userId: user._id,
+        email: user.email,
+        method: "magic-link",
+        success: false,
+        failureReason: "inactive",
+      });
+      const response: ResponseObject = {
+        code: "Error-02-0005",
+        status: "Error",
+        message: `Account is ${user.status}. Please contact support.`,
+      };
+      return res.status(403).json(response);
+    }
+
+    // The link reached the inbox, which is what verification proves
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+    }
+
+    if (user.mustChangePassword) {
+      const response: ResponseObject = {
+        code: "Success-01-0010",
+        status: "Success",
+        message: "Password change required",
+        data: {
+          passwordChangeRequired: true,
+          changeToken: signPasswordChangeChallenge(user._id.toString()),
+        },
+      };
+      return res.status(200).json(response);
+    }
+
+    if (user.twoFactor?.enabled) {
+      const response: ResponseObject = {
+        code: "Success-01-0009",
+        status: "Success",
+        message: "Two-factor authentication required",
+        data: {
+          mfaRequired: true,
+          challengeToken: signMfaChallenge(user._id.toString()),
+        },
+      };
+      return res.status(200).json(response);
+    }
+
+    const response: ResponseObject = {
+      code: "Success-01-0002",
+      status: "Success",
+      message: "Login successful",
+      data: await completeLogin(user, req, { method: "magic-link" }),
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error during magic link login:", error);
+    const response: ResponseObject = {
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    };
+    res.status(500).json(response);
+  }
+});
@@ -0,0 +1,143 @@
+import { Request } from "express";
+import mongoose from "mongoose";
+import { createSession, hashToken, rotateRefreshToken } from "./token";
+
+interface MockSession {
+  _id: string;
+  refreshTokenHash: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason?: string;
+}
+
+// In-memory sessions; each update applies in one step like a MongoDB write
+const mockSessions = new Map<string, MockSession>();
+
+jest.mock("../session/model", () => ({
+  Session: {
+    create: jest.fn(async (doc: MockSession & { _id: object }) => {
+      const session = { ...doc, _id: doc._id.toString(), revokedAt: null };
+      mockSessions.set(session._id, session);
+      return session;
+    }),
+    findOneAndUpdate: jest.fn(
+      async (
+        filter: {
+          _id: string;
+          refreshTokenHash: string;
+          expiresAt: { $gt: Date };
+        },
+        update: { $set: Partial<MockSession> }
+      ) => {
+        const session = mockSessions.get(filter._id);
+        if (
+          !session ||
+          session.refreshTokenHash !== filter.refreshTokenHash ||
+          session.revokedAt ||
+          session.expiresAt <= filter.expiresAt.$gt
+        ) {
+          return null;
+        }
+        Object.assign(session, update.$set);
+        return session;
+      }
+    ),
+    findById: jest.fn(async (id: string) => mockSessions.get(id) ?? null),
+    updateOne: jest.fn(
+      async (
+        filter: { _id: string },
+        update: { $set: Partial<MockSession> }
+      ) => {
+        const session = mockSessions.get(filter._id);
+        if (session && !session.revokedAt) {
+          Object.assign(session, update.$set);
+        }
+      }
+    ),
+  },
+}));
+
+jest.mock("./keyRing", () => ({
+  signJwt: () => "access-token",
+  verifyJwt: jest.fn(),
+}));
+
+const request = { ip: "127.0.0.1", headers: {} } as Request;
+const user = {
+  _id: new mongoose.Types.ObjectId(),
+  email: "trader@btrade.example",
+  role: "user",
+};
+
+const sessionOf = (refreshToken: string) =>
+  mockSessions.get(refreshToken.split(".")[0])!;
+
+afterEach(() => {
+  mockSessions.clear();
+});
+
+describe("rotateRefreshToken", () => {
+  it("swaps the refresh token for a new one", async () => {
+    const { refreshToken } = await createSession(user, request);
+
+    const result = await rotateRefreshToken(refreshToken);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.refreshToken).not.toBe(refreshToken);
+      expect(sessionOf(refreshToken).refreshTokenHash).toBe(
+        hashToken(result.refreshToken.split(".")[1])
+      );
+    }
+  });
+
+  it("revokes the session when a rotated token is presented again", async () => {
+    const { refreshToken } = await createSession(user, request);
+    const rotated = await rotateRefreshToken(refreshToken);
+
+    const replay = await rotateRefreshToken(refreshToken);
+    expect(replay).toEqual({ ok: false, reason: "reused" });
+    expect(sessionOf(refreshToken).revokedReason).toBe("refresh-token-reuse");
+
+    // The token issued before the reuse is dead too
+    expect(rotated.ok).toBe(true);
+    if (rotated.ok) {
+      expect(await rotateRefreshToken(rotated.refreshToken)).toEqual({
+        ok: false,
+        reason: "revoked",
+      });
+    }
+  });
+
+  it("lets only one of two parallel rotations of the same token succeed", async () => {
+    const { refreshToken } = await createSession(user, request);
+
+    const results = await Promise.all([
+      rotateRefreshToken(refreshToken),
+      rotateRefreshToken(refreshToken),
+    ]);
+
+    expect(results.filter((result) => result.ok)).toHaveLength(1);
+    expect(results).toContainEqual({ ok: false, reason: "reused" });
+  });
+
+  it("refuses an expired session", async () => {
+    const { refreshToken } = await createSession(user, request);
+    sessionOf(refreshToken).expiresAt = new Date(Date.now() - 1000);
+
+    expect(await rotateRefreshToken(refreshToken)).toEqual({
+      ok: false,
+      reason: "revoked",
+    });
+  });
+
+  it("refuses malformed and unknown tokens", async () => {
+    expect(await rotateRefreshToken("not-a-token")).toEqual({
+      ok: false,
+      reason: "invalid",
+    });
+    expect(await rotateRefreshToken("64b000000000000000000009.secret")).toEqual(
+      { ok: false, reason: "invalid" }
+    );
+  });
+});
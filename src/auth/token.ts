@@ -0,0 +1,247 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
+import { Request } from "express";
+import { Session } from "../session/model";
+import { signJwt, verifyJwt } from "./keyRing";
+
+// Access tokens are short-lived; the refresh token keeps the session alive
+export const ACCESS_TOKEN_TTL = "15m";
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+export interface AccessTokenPayload {
+  userId: string;
+  email?: string;
+  role?: string;
+  sessionId: string;
+  mfa?: boolean;
+  // Set when an administrator is acting as this user
+  impersonatorId?: string;
+}
+
+interface SessionUser {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  role: string;
+}
+
+export const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export const signAccessToken = (
+  payload: AccessTokenPayload,
+  expiresIn: jwt.SignOptions["expiresIn"] = ACCESS_TOKEN_TTL
+): string => signJwt(payload, expiresIn);
+
+export const verifyAccessToken = (token: string): AccessTokenPayload => {
+  const payload = verifyJwt(token) as AccessTokenPayload & {
+    purpose?: string;
+  };
+
+  // Single-purpose tokens (password reset etc.) must never act as logins
+  if (payload.purpose) {
+    throw new jwt.JsonWebTokenError("unexpected token purpose");
+  }
+
+  return payload;
+};
+
+export type TokenPurpose =
+  | "password-reset"
+  | "email-verification"
+  | "mfa-challenge"
+  | "password-change"
+  | "magic-link";
+
+export interface PurposeTokenPayload {
+  userId: string;
+  purpose: TokenPurpose;
+  jti: string;
+  // Address an email-verification link was sent to
+  email?: string;
+}
+
+/**
+ * Sign a token that is only accepted by the flow named in `purpose`
+ */
+export const signPurposeToken = (
+  userId: string,
+  purpose: TokenPurpose,
+  expiresInSeconds: number,
+  claims: Pick<PurposeTokenPayload, "email"> = {}
+): string =>
+  signJwt(
+    { ...claims, userId, purpose, jti: crypto.randomBytes(16).toString("hex") },
+    expiresInSeconds
+  );
+
+export const verifyPurposeToken = (
+  token: string,
+  purpose: TokenPurpose
+): PurposeTokenPayload => {
+  const payload = verifyJwt(token) as PurposeTokenPayload;
+
+  if (payload.purpose !== purpose) {
+    throw new jwt.JsonWebTokenError("token purpose mismatch");
+  }
+
+  return payload;
+};
+
+// Refresh tokens look like "<sessionId>.<secret>" so the session can be found
+// even when a stale (already rotated) secret is presented
+const buildRefreshToken = (sessionId: string) => {
+  const secret = crypto.randomBytes(48).toString("hex");
+  return { refreshToken: `${sessionId}.${secret}`, hash: hashToken(secret) };
+};
+
+const refreshExpiry = () =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+interface SessionOptions {
+  mfaVerified?: boolean;
+}
+
+/**
+ * Create a new server-side session and issue its access/refresh token pair
+ */
+export const createSession = async (
+  user: SessionUser,
+  req: Request,
+  options: SessionOptions = {}
+) => {
+  const sessionId = new mongoose.Types.ObjectId();
+  const { refreshToken, hash } = buildRefreshToken(sessionId.toString());
+  const mfaVerified = !!options.mfaVerified;
+
+  await Session.create({
+    _id: sessionId,
+    userId: user._id,
+    refreshTokenHash: hash,
+    expiresAt: refreshExpiry(),
+    mfaVerified,
+    ip: req.ip || "",
+    userAgent: req.headers["user-agent"] || "",
+  });
+
+  const token = signAccessToken({
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    sessionId: sessionId.toString(),
+    mfa: mfaVerified,
+  });
+
+  return { token, refreshToken, sessionId: sessionId.toString() };
+};
+
+interface ImpersonationOptions {
+  impersonatorId: string;
+  ttlMinutes: number;
+}
+
+/**
+ * Start a short-lived session in which an administrator acts as `user`.
+ * Only an access token is issued; the session ends when it expires.
+ */
+export const createImpersonationSession = async (
+  user: SessionUser,
+  req: Request,
+  options: ImpersonationOptions
+) => {
+  const sessionId = new mongoose.Types.ObjectId();
+  const expiresAt = new Date(Date.now() + options.ttlMinutes * 60 * 1000);
+
+  await Session.create({
+    _id: sessionId,
+    userId: user._id,
+    // Never handed out, so the session cannot be refreshed
+    refreshTokenHash: hashToken(crypto.randomBytes(48).toString("hex")),
+    expiresAt,
+    impersonatorId: options.impersonatorId,
+    ip: req.ip || "",
+    userAgent: req.headers["user-agent"] || "",
+  });
+
+  const token = signAccessToken(
+    {
+      userId: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      sessionId: sessionId.toString(),
+      impersonatorId: options.impersonatorId,
+    },
+    options.ttlMinutes * 60
+  );
+
+  return { token, sessionId: sessionId.toString(), expiresAt };
+};
+
+export type RotateResult =
+  | { ok: true; refreshToken: string; session: InstanceType<typeof Session> }
+  | { ok: false; reason: "invalid" | "revoked" | "reused" };
+
+/**
+ * Swap a refresh token for a new one. Presenting an old secret for a live
+ * session means the token leaked, so the whole session is revoked.
+ */
+export const rotateRefreshToken = async (
+  presented: string
+): Promise<RotateResult> => {
+  const [sessionId, secret] = presented.split(".");
+  if (!sessionId || !secret || !mongoose.isValidObjectId(sessionId)) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  // Swap the hash atomically so two requests presenting the same secret
+  // cannot both succeed
+  const next = buildRefreshToken(sessionId);
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: sessionId,
+      refreshTokenHash: hashToken(secret),
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { refreshTokenHash: next.hash, lastUsedAt: new Date() } },
+    { new: true }
+  );
+
+  if (!session) {
+    const existing = await Session.findById(sessionId);
+    if (!existing) {
+      return { ok: false, reason: "invalid" };
+    }
+    if (existing.revokedAt || existing.expiresAt < new Date()) {
+      return { ok: false, reason: "revoked" };
+    }
+    await revokeSession(sessionId, "refresh-token-reuse");
+    return { ok: false, reason: "reused" };
+  }
+
+  return { ok: true, refreshToken: next.refreshToken, session };
+};
+
+export const isSessionActive = async (sessionId?: string) => {
+  if (!sessionId || !mongoose.isValidObjectId(sessionId)) {
+    return false;
+  }
+
+  const session = await Session.findById(sessionId);
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+};
+
+export const revokeSession = (sessionId: string, reason: string) =>
+  Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+
+export const revokeAllSessions = (
+  userId: string | mongoose.Types.ObjectId,
+  reason: string
+) =>
+  Session.updateMany(
+    { userId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
@@ -0,0 +1,61 @@
+import { currentTotpStep, normaliseRecoveryCode, verifyTotp } from "./totp";
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890" (SHA-1)
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const RFC_VECTORS = [
+  { time: 59, code: "287082" },
+  { time: 1111111109, code: "081804" },
+  { time: 1234567890, code: "005924" },
+  { time: 2000000000, code: "279037" },
+];
+
+const at = (seconds: number) =>
+  jest.spyOn(Date, "now").mockReturnValue(seconds * 1000);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("verifyTotp", () => {
+  it.each(RFC_VECTORS)(
+    "accepts the RFC 6238 code at $time",
+    ({ time, code }) => {
+      at(time);
+      expect(verifyTotp(RFC_SECRET, code)).toBe(currentTotpStep());
+    }
+  );
+
+  it("accepts a code one step old and returns that step", () => {
+    at(1111111109 + 30);
+    expect(verifyTotp(RFC_SECRET, "081804")).toBe(currentTotpStep() - 1);
+  });
+
+  it("refuses a code whose step was already used", () => {
+    at(1111111109);
+    const step = verifyTotp(RFC_SECRET, "081804");
+
+    expect(step).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, "081804", step)).toBeNull();
+  });
+
+  it("refuses a code from before the last used step", () => {
+    at(1111111109 + 30);
+    // The previous step's code, after the current step was used
+    expect(verifyTotp(RFC_SECRET, "081804", currentTotpStep())).toBeNull();
+  });
+
+  it("refuses malformed codes", () => {
+    at(1111111109);
+    expect(verifyTotp(RFC_SECRET, "81804")).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "08180a")).toBeNull();
+  });
+});
+
+describe("normaliseRecoveryCode", () => {
+  it.each(["abcde-12345", "ABCDE-12345", "abcde12345", " ABCDE 12345 "])(
+    "reads %p as the issued form",
+    (input) => {
+      expect(normaliseRecoveryCode(input)).toBe("abcde-12345");
+    }
+  );
+});
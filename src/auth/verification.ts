@@ -0,0 +1,33 @@
+import { User } from "../user/model";
+import { MAIL_FROM, transporter } from "./mailer";
+import { signPurposeToken } from "./token";
+
+// Email verification links are valid for 24 hours
+export const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+/**
+ * Email a link that confirms `email` belongs to the user
+ */
+export const sendVerificationEmail = async (userId: string, email: string) => {
+  // The token names the address so a link sent before an email change
+  // cannot verify the new one
+  const verificationToken = signPurposeToken(
+    userId,
+    "email-verification",
+    EMAIL_VERIFICATION_TTL_HOURS * 60 * 60,
+    { email }
+  );
+
+  const verifyUrl = `${process.env.FRONTEND_URL}/verify-email?token=${verificationToken}`;
+  await transporter.sendMail({
+    from: MAIL_FROM,
+    to: email,
+    subject: "Verify your email address",
+    text: `Please confirm your B-Trade email address by clicking the following link within ${EMAIL_VERIFICATION_TTL_HOURS} hours: ${verifyUrl}`,
+  });
+
+  await User.updateOne(
+    { _id: userId },
+    { $set: { verificationEmailSentAt: new Date() } }
+  );
+};
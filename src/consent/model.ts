@@ -0,0 +1,65 @@
+import mongoose from "mongoose";
+
+export const LEGAL_DOCUMENT_TYPES = ["terms", "privacy", "marketing"] as const;
+
+export type LegalDocumentType = (typeof LEGAL_DOCUMENT_TYPES)[number];
+
+// Users cannot use B-Trade without accepting these; marketing is optional
+export const REQUIRED_DOCUMENT_TYPES: LegalDocumentType[] = [
+  "terms",
+  "privacy",
+];
+
+// A published version of the terms of service, privacy notice or marketing
+// consent text. The newest published version of each type is the current one.
+const legalDocumentSchema = new mongoose.Schema(
+  {
+    type: { type: String, enum: LEGAL_DOCUMENT_TYPES, required: true },
+    version: { type: String, required: true },
+    title: { type: String, required: true },
+    content: { type: String, required: true },
+    publishedAt: { type: Date, default: Date.now },
+    publishedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+legalDocumentSchema.index({ type: 1, version: 1 }, { unique: true });
+legalDocumentSchema.index({ type: 1, publishedAt: -1 });
+
+export const LegalDocument = mongoose.model(
+  "legaldocuments",
+  legalDocumentSchema
+);
+
+// Append-only log of every accept or decline. The newest record for a
+// document is the user's current answer.
+const consentSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+    },
+    documentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "legaldocuments",
+      required: true,
+    },
+    documentType: { type: String, enum: LEGAL_DOCUMENT_TYPES, required: true },
+    version: { type: String, required: true },
+    accepted: { type: Boolean, required: true },
+    ip: { type: String, default: "" },
+    userAgent: { type: String, default: "" },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+consentSchema.index({ userId: 1, documentId: 1, createdAt: -1 });
+consentSchema.index({ documentId: 1, createdAt: -1 });
+
+export const Consent = mongoose.model("consents", consentSchema);
@@ -0,0 +1,543 @@
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Consent, LEGAL_DOCUMENT_TYPES, LegalDocument } from "./model";
+import {
+  getConsentState,
+  getCurrentDocuments,
+  getPendingConsents,
+  isRequiredDocument,
+  recordConsents,
+} from "./service";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const consent = express.Router();
+
+/**
+ * @swagger
+ * /consent/documents:
+ *   get:
+ *     summary: Current terms of service, privacy notice and marketing consent text
+ *     description: Shown at registration and whenever a user has to accept a new version. Only types that have been published are returned.
+ *     tags: [Consent]
+ *     responses:
+ *       200:
+ *         description: Documents retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       type:
+ *                         type: string
+ *                         enum: [terms, privacy, marketing]
+ *                       version:
+ *                         type: string
+ *                         example: '2025-01'
+ *                       title:
+ *                         type: string
+ *                       content:
+ *                         type: string
+ *                       required:
+ *                         type: boolean
+ *                       publishedAt:
+ *                         type: string
+ *                         format: date-time
+ *       500:
+ *         description: Internal server error
+ */
+consent.get("/documents", async (req: Request, res: Response) => {
+  try {
+    const documents = await getCurrentDocuments();
+
+    res.status(200).json({
+      code: "Success-01-0001",
+      status: "Success",
+      message: "Documents retrieved successfully",
+      data: documents.map((doc) => ({
+        id: doc._id,
+        type: doc.type,
+        version: doc.version,
+        title: doc.title,
+        content: doc.content,
+        required: isRequiredDocument(doc.type),
+        publishedAt: doc.publishedAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Error retrieving legal documents:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /consent/documents:
+ *   post:
+ *     summary: Publish a new version of a legal document
+ *     description: The new version becomes current immediately. Users who accepted an older version of the terms or privacy notice are asked to accept again at their next login.
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - version
+ *               - title
+ *               - content
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [terms, privacy, marketing]
+ *               version:
+ *                 type: string
+ *                 example: '2025-01'
+ *               title:
+ *                 type: string
+ *                 example: 'Privacy Notice'
+ *               content:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Document published
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-18-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Document published'
+ *       400:
+ *         description: Missing fields or unknown document type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-18-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'type, version, title and content are required'
+ *       409:
+ *         description: This version was already published
+ *       500:
+ *         description: Internal server error
+ */
+consent.post(
+  "/documents",
+  verifyToken,
+  requirePermission("legal:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { type, version, title, content } = req.body;
+
+      if (
+        !(LEGAL_DOCUMENT_TYPES as readonly string[]).includes(type) ||
+        !version ||
+        !title ||
+        !content
+      ) {
+        return res.status(400).json({
+          code: "Error-18-0001",
+          status: "Error",
+          message: `type (${LEGAL_DOCUMENT_TYPES.join(
+            ", "
+          )}), version, title and content are required`,
+        });
+      }
+
+      const existing = await LegalDocument.findOne({
+        type,
+        version: String(version),
+      });
+      if (existing) {
+        return res.status(409).json({
+          code: "Error-18-0002",
+          status: "Error",
+          message: `Version ${version} of ${type} has already been published`,
+        });
+      }
+
+      const created = await LegalDocument.create({
+        type,
+        version: String(version),
+        title,
+        content,
+        publishedBy: req.user!.userId,
+      });
+
+      res.status(201).json({
+        code: "Success-18-0001",
+        status: "Success",
+        message: "Document published",
+        data: {
+          id: created._id,
+          type: created.type,
+          version: created.version,
+          publishedAt: created.publishedAt,
+        },
+      });
+    } catch (error) {
+      console.error("Error publishing legal document:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /consent/me:
+ *   get:
+ *     summary: Your answer for each current legal document
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Consent state retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       documentId:
+ *                         type: string
+ *                       type:
+ *                         type: string
+ *                       version:
+ *                         type: string
+ *                       required:
+ *                         type: boolean
+ *                       accepted:
+ *                         type: boolean
+ *                         nullable: true
+ *                         description: Null when the current version has not been answered
+ *                       answeredAt:
+ *                         type: string
+ *                         format: date-time
+ *       500:
+ *         description: Internal server error
+ */
+consent.get("/me", verifyToken, async (req: Request, res: Response) => {
+  try {
+    res.status(200).json({
+      code: "Success-01-0001",
+      status: "Success",
+      message: "Consent state retrieved successfully",
+      data: await getConsentState(req.user!.userId),
+    });
+  } catch (error) {
+    console.error("Error retrieving consent state:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /consent/me:
+ *   post:
+ *     summary: Accept or decline current legal documents
+ *     description: Records each answer with a timestamp, IP address and user agent. The terms of service and privacy notice cannot be declined; marketing consent can be given or withdrawn at any time.
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - answers
+ *             properties:
+ *               answers:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     documentId:
+ *                       type: string
+ *                     accepted:
+ *                       type: boolean
+ *     responses:
+ *       200:
+ *         description: Consent recorded; returns the documents still pending
+ *       400:
+ *         description: Not a current document or a required document was declined
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-18-0003'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Only the current version of a document can be answered'
+ *       500:
+ *         description: Internal server error
+ */
+consent.post("/me", verifyToken, async (req: Request, res: Response) => {
+  try {
+    const answers = req.body?.answers;
+    if (!Array.isArray(answers) || answers.length === 0) {
+      return res.status(400).json({
+        code: "Error-02-0001",
+        status: "Error",
+        message: "Missing required field: answers",
+      });
+    }
+
+    const documents = await getCurrentDocuments();
+    const resolved = [];
+    for (const answer of answers) {
+      const document = documents.find(
+        (doc) => doc._id.toString() === String(answer?.documentId)
+      );
+      if (!document || typeof answer.accepted !== "boolean") {
+        return res.status(400).json({
+          code: "Error-18-0003",
+          status: "Error",
+          message: "Only the current version of a document can be answered",
+        });
+      }
+      if (!answer.accepted && isRequiredDocument(document.type)) {
+        return res.status(400).json({
+          code: "Error-18-0004",
+          status: "Error",
+          message: `The ${document.type} document cannot be declined. Close your account through an erasure request instead.`,
+        });
+      }
+      resolved.push({ document, accepted: answer.accepted as boolean });
+    }
+
+    await recordConsents(req.user!.userId, resolved, req);
+
+    res.status(200).json({
+      code: "Success-01-0001",
+      status: "Success",
+      message: "Consent recorded",
+      data: { pendingConsents: await getPendingConsents(req.user!.userId) },
+    });
+  } catch (error) {
+    console.error("Error recording consent:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /consent/users/{userId}:
+ *   get:
+ *     summary: Consent state and full consent history of a user
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Consent retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+consent.get(
+  "/users/:userId",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      if (!mongoose.isValidObjectId(userId)) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      const [current, history] = await Promise.all([
+        getConsentState(userId),
+        Consent.find({ userId }).sort({ createdAt: -1 }),
+      ]);
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Consent retrieved successfully",
+        data: { current, history },
+      });
+    } catch (error) {
+      console.error("Error retrieving user consent:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /consent/records:
+ *   get:
+ *     summary: Search consent records, newest first
+ *     description: For example, every user who withdrew marketing consent, or every acceptance of one version of the terms.
+ *     tags: [Consent]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: documentId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [terms, privacy, marketing]
+ *       - in: query
+ *         name: version
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: accepted
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Consent records retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+consent.get(
+  "/records",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const page = Math.max(1, parseInt(String(req.query.page)) || 1);
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt(String(req.query.limit)) || 20)
+      );
+
+      const filter: Record<string, unknown> = {};
+      const { documentId, type, version, accepted } = req.query;
+      if (
+        typeof documentId === "string" &&
+        mongoose.isValidObjectId(documentId)
+      ) {
+        filter.documentId = documentId;
+      }
+      if (typeof type === "string") filter.documentType = type;
+      if (typeof version === "string") filter.version = version;
+      if (accepted === "true" || accepted === "false") {
+        filter.accepted = accepted === "true";
+      }
+
+      const [records, total] = await Promise.all([
+        Consent.find(filter)
+          .populate("userId", "email")
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        Consent.countDocuments(filter),
+      ]);
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Consent records retrieved successfully",
+        data: { records, total, page, limit },
+      });
+    } catch (error) {
+      console.error("Error retrieving consent records:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
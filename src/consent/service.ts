@@ -0,0 +1,98 @@
+import mongoose from "mongoose";
+import { Request } from "express";
+import {
+  Consent,
+  LEGAL_DOCUMENT_TYPES,
+  LegalDocument,
+  LegalDocumentType,
+  REQUIRED_DOCUMENT_TYPES,
+} from "./model";
+
+export const isRequiredDocument = (type: string) =>
+  (REQUIRED_DOCUMENT_TYPES as string[]).includes(type);
+
+/**
+ * Newest published version of each document type. Types that were never
+ * published are left out.
+ */
+export const getCurrentDocuments = async () => {
+  const documents = await Promise.all(
+    LEGAL_DOCUMENT_TYPES.map((type) =>
+      LegalDocument.findOne({ type, publishedAt: { $lte: new Date() } }).sort({
+        publishedAt: -1,
+      })
+    )
+  );
+  return documents.flatMap((doc) => (doc ? [doc] : []));
+};
+
+type LegalDocumentRecord = Awaited<
+  ReturnType<typeof getCurrentDocuments>
+>[number];
+
+/**
+ * The user's latest answer for every current document. `accepted` is null
+ * when the user has not answered the current version yet.
+ */
+export const getConsentState = async (
+  userId: string | mongoose.Types.ObjectId
+) => {
+  const documents = await getCurrentDocuments();
+
+  return Promise.all(
+    documents.map(async (doc) => {
+      const latest = await Consent.findOne({
+        userId,
+        documentId: doc._id,
+      }).sort({ createdAt: -1 });
+
+      return {
+        documentId: doc._id,
+        type: doc.type as LegalDocumentType,
+        version: doc.version,
+        title: doc.title,
+        required: isRequiredDocument(doc.type),
+        accepted: latest ? latest.accepted : null,
+        answeredAt: latest ? latest.createdAt : null,
+      };
+    })
+  );
+};
+
+/**
+ * Current required documents the user still has to accept, e.g. because a
+ * new version was published since they last accepted
+ */
+export const getPendingConsents = async (
+  userId: string | mongoose.Types.ObjectId
+) => {
+  const state = await getConsentState(userId);
+  return state
+    .filter((item) => item.required && item.accepted !== true)
+    .map(({ documentId, type, version, title }) => ({
+      documentId,
+      type,
+      version,
+      title,
+    }));
+};
+
+/**
+ * Store the user's answers, with the IP and user agent they came from
+ */
+export const recordConsents = (
+  userId: string | mongoose.Types.ObjectId,
+  answers: { document: LegalDocumentRecord; accepted: boolean }[],
+  req: Request
+) =>
+  Consent.insertMany(
+    answers.map(({ document, accepted }) => ({
+      userId,
+      documentId: document._id,
+      documentType: document.type,
+      version: document.version,
+      accepted,
+      ip: req.ip || "",
+      userAgent: req.headers["user-agent"] || "",
+    }))
+  );
@@ -3,7 +3,7 @@ import cloudinary from "cloudinary";
 import streamifier from "streamifier";
 import { Course } from "./model";
 import multer from "multer";
-import { checkAdminRole, verifyToken } from "../../middleware/middleware";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
 
 require("dotenv").config();
 
@@ -442,7 +442,7 @@ course.get("/:courseId", verifyToken, async (req: Request, res: Response) => {
 course.post(
   "/",
   verifyToken,
-  checkAdminRole,
+  requirePermission("course:write"),
   upload.single("courseImage"),
   async (req: MulterRequest, res: Response) => {
     const contentType = req.headers["content-type"];
@@ -688,7 +688,7 @@ course.post(
 course.put(
   "/",
   verifyToken,
-  checkAdminRole,
+  requirePermission("course:write"),
   upload.single("courseImage"),
   async (req: MulterRequest, res: Response) => {
     try {
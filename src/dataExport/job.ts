@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { DataExport } from "./model";
+import { User } from "../user/model";
+import { Trader } from "../trader/model";
+import { Enrollment } from "../enrollment/model";
+import { Payment } from "../payment/model";
+import { Consent } from "../consent/model";
+import { hashToken } from "../auth/token";
+import { MAIL_FROM, transporter } from "../auth/mailer";
+
+// Download links stay valid this long after the archive is ready
+export const DATA_EXPORT_LINK_TTL_HOURS = 72;
+// Exports still processing after this long are assumed to have crashed
+const STALE_EXPORT_MINUTES = 15;
+const DATA_EXPORT_POLL_MINUTES = 1;
+
+let running = false;
+
+/**
+ * Everything B-Trade stores about a user, in a machine-readable form.
+ * Credentials (password hashes, 2FA secrets and recovery codes) are left out.
+ */
+export const buildExportArchive = async (
+  userId: string | mongoose.Types.ObjectId
+) => {
+  const [user, trader, enrollments, payments, consents] = await Promise.all([
+    User.findById(userId).select("-password").lean(),
+    Trader.findOne({ userId }).lean(),
+    Enrollment.find({ userId }).sort({ enrollDate: 1 }).lean(),
+    Payment.find({ userId: String(userId) })
+      .sort({ createdAt: 1 })
+      .lean(),
+    Consent.find({ userId }).sort({ createdAt: 1 }).lean(),
+  ]);
+
+  const { trainings = [], ...traderProfile } = trader ?? {};
+
+  return {
+    format: "btrade-personal-data-export",
+    version: 1,
+    exportedAt: new Date(),
+    user,
+    trader: trader ? traderProfile : null,
+    trainings,
+    enrollments,
+    payments,
+    consents,
+  };
+};
+
+const processExport = async (exportId: mongoose.Types.ObjectId) => {
+  const record = await DataExport.findById(exportId);
+  if (!record) return;
+
+  try {
+    const user = await User.findById(record.userId).select("email");
+    if (!user) {
+      throw new Error("User no longer exists");
+    }
+
+    const archive = await buildExportArchive(record.userId);
+    const token = crypto.randomBytes(32).toString("hex");
+    const expiresAt = new Date(
+      Date.now() + DATA_EXPORT_LINK_TTL_HOURS * 60 * 60 * 1000
+    );
+
+    await DataExport.updateOne(
+      { _id: record._id },
+      {
+        $set: {
+          status: "ready",
+          archive: JSON.stringify(archive, null, 2),
+          tokenHash: hashToken(token),
+          completedAt: new Date(),
+          expiresAt,
+        },
+      }
+    );
+
+    const downloadUrl = `${process.env.FRONTEND_URL}/data-export?token=${token}`;
+    await transporter.sendMail({
+      from: MAIL_FROM,
+      to: user.email,
+      subject: "Your B-Trade data export is ready",
+      text: `The copy of your personal data you requested is ready. Download it within ${DATA_EXPORT_LINK_TTL_HOURS} hours: ${downloadUrl}\n\nIf you did not request this export, please contact support.`,
+    });
+  } catch (error) {
+    console.error("Error building data export:", error);
+    await DataExport.updateOne(
+      { _id: record._id },
+      {
+        $set: {
+          status: "failed",
+          failureReason: error instanceof Error ? error.message : "Unknown",
+        },
+      }
+    );
+  }
+};
+
+/**
+ * Build every pending export, one at a time. Safe to run on several
+ * instances: each export is claimed atomically before it is built.
+ */
+export const processPendingExports = async () => {
+  if (running) return;
+  running = true;
+
+  try {
+    // Requeue exports whose worker died halfway
+    await DataExport.updateMany(
+      {
+        status: "processing",
+        startedAt: {
+          $lt: new Date(Date.now() - STALE_EXPORT_MINUTES * 60 * 1000),
+        },
+      },
+      { $set: { status: "pending" } }
+    );
+
+    for (;;) {
+      const claimed = await DataExport.findOneAndUpdate(
+        { status: "pending" },
+        { $set: { status: "processing", startedAt: new Date() } },
+        { sort: { createdAt: 1 }, new: true }
+      );
+      if (!claimed) break;
+      await processExport(claimed._id);
+    }
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Poll for pending exports in the background
+ */
+export const startDataExportWorker = () => {
+  const run = () =>
+    processPendingExports().catch((error) =>
+      console.error("Error processing data exports:", error)
+    );
+  run();
+  setInterval(run, DATA_EXPORT_POLL_MINUTES * 60 * 1000);
+};
@@ -0,0 +1,49 @@
+import mongoose from "mongoose";
+
+export const DATA_EXPORT_STATUSES = [
+  "pending",
+  "processing",
+  "ready",
+  "failed",
+] as const;
+
+// Copy of a user's personal data requested under the PDPA. Built by the
+// background worker in job.ts and removed once the download link expires.
+const dataExportSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: DATA_EXPORT_STATUSES,
+      default: "pending",
+      index: true,
+    },
+    // Only the SHA-256 hash of the emailed download token is stored
+    tokenHash: { type: String, unique: true, sparse: true },
+    // JSON archive; large, so never loaded by default
+    archive: { type: String, select: false },
+    startedAt: { type: Date, default: null },
+    completedAt: { type: Date, default: null },
+    downloadedAt: { type: Date, default: null },
+    failureReason: { type: String, default: null },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+dataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+// At most one unfinished export per user; a second request fails to insert
+dataExportSchema.index(
+  { userId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: { $in: ["pending", "processing"] } },
+  }
+);
+
+export const DataExport = mongoose.model("dataexports", dataExportSchema);
@@ -0,0 +1,252 @@
+import express, { Request, Response } from "express";
+import { DataExport } from "./model";
+import { processPendingExports } from "./job";
+import { hashToken } from "../auth/token";
+import { verifyToken } from "../../middleware/middleware";
+
+export const dataExport = express.Router();
+
+// Unfinished exports are cleaned up after this long
+const PENDING_EXPORT_TTL_DAYS = 7;
+
+// MongoDB duplicate key error
+const DUPLICATE_KEY = 11000;
+
+/**
+ * @swagger
+ * /data-export:
+ *   post:
+ *     summary: Request a copy of your personal data (PDPA)
+ *     description: Queues a background job that builds a JSON archive of your account, trader profile, trainings, enrollments, payments and consents. A download link valid for 72 hours is emailed when it is ready.
+ *     tags: [Data Export]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Export requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-16-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Your export is being prepared. We will email you a download link.'
+ *       409:
+ *         description: An export is already being prepared
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-16-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'An export is already being prepared'
+ *       500:
+ *         description: Internal server error
+ */
+dataExport.post("/", verifyToken, async (req: Request, res: Response) => {
+  try {
+    // The unique index on unfinished exports claims the slot atomically
+    let created;
+    try {
+      created = await DataExport.create({
+        userId: req.user!.userId,
+        expiresAt: new Date(
+          Date.now() + PENDING_EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000
+        ),
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code !== DUPLICATE_KEY) throw error;
+      return res.status(409).json({
+        code: "Error-16-0001",
+        status: "Error",
+        message: "An export is already being prepared",
+      });
+    }
+
+    // Start right away instead of waiting for the next poll
+    processPendingExports().catch((error) =>
+      console.error("Error processing data exports:", error)
+    );
+
+    res.status(202).json({
+      code: "Success-16-0001",
+      status: "Success",
+      message:
+        "Your export is being prepared. We will email you a download link.",
+      data: { id: created._id, status: created.status },
+    });
+  } catch (error) {
+    console.error("Error requesting data export:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /data-export:
+ *   get:
+ *     summary: List your data export requests, newest first
+ *     tags: [Data Export]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Exports retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         enum: [pending, processing, ready, failed]
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       completedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       expiresAt:
+ *                         type: string
+ *                         format: date-time
+ *       500:
+ *         description: Internal server error
+ */
+dataExport.get("/", verifyToken, async (req: Request, res: Response) => {
+  try {
+    const exports = await DataExport.find({ userId: req.user!.userId }).sort({
+      createdAt: -1,
+    });
+
+    res.status(200).json({
+      code: "Success-01-0001",
+      status: "Success",
+      message: "Exports retrieved successfully",
+      data: exports.map((record) => ({
+        id: record._id,
+        status: record.status,
+        createdAt: record.createdAt,
+        completedAt: record.completedAt,
+        downloadedAt: record.downloadedAt,
+        expiresAt: record.expiresAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Error retrieving data exports:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /data-export/download:
+ *   get:
+ *     summary: Download a data export archive
+ *     description: Uses the token from the emailed link, so no login is needed. The link works until it expires.
+ *     tags: [Data Export]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: JSON archive sent as an attachment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       404:
+ *         description: Invalid or expired download link
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-16-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Download link is invalid or has expired'
+ *       500:
+ *         description: Internal server error
+ */
+dataExport.get("/download", async (req: Request, res: Response) => {
+  try {
+    const token = req.query.token;
+    const record =
+      typeof token === "string" && token
+        ? await DataExport.findOne({
+            tokenHash: hashToken(token),
+            status: "ready",
+            expiresAt: { $gt: new Date() },
+          }).select("+archive")
+        : null;
+    if (!record || !record.archive) {
+      return res.status(404).json({
+        code: "Error-16-0002",
+        status: "Error",
+        message: "Download link is invalid or has expired",
+      });
+    }
+
+    await DataExport.updateOne(
+      { _id: record._id },
+      { $set: { downloadedAt: new Date() } }
+    );
+
+    const date = record.completedAt!.toISOString().slice(0, 10);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="btrade-data-export-${date}.json"`
+    );
+    res.type("application/json").status(200).send(record.archive);
+  } catch (error) {
+    console.error("Error downloading data export:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
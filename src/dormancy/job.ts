@@ -0,0 +1,191 @@
+import mongoose from "mongoose";
+import { DormancyRun } from "./model";
+import { User } from "../user/model";
+import { sendStatusChangeEmail, setUserStatus } from "../user/status";
+import { revokeAllSessions } from "../auth/token";
+import { MAIL_FROM, transporter } from "../auth/mailer";
+
+// Accounts without activity for this long are deactivated
+// (DORMANCY_THRESHOLD_DAYS overrides)
+const DEFAULT_DORMANCY_THRESHOLD_DAYS = 365;
+// The warning email goes out this long before deactivation
+// (DORMANCY_WARNING_DAYS overrides)
+const DEFAULT_DORMANCY_WARNING_DAYS = 30;
+const DORMANCY_CHECK_HOURS = 24;
+
+export const DORMANT_REASON = "dormant";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let running = false;
+
+export const getDormancyPolicy = () => {
+  const thresholdDays =
+    Number(process.env.DORMANCY_THRESHOLD_DAYS) ||
+    DEFAULT_DORMANCY_THRESHOLD_DAYS;
+  const warningDays = Math.min(
+    Number(process.env.DORMANCY_WARNING_DAYS) || DEFAULT_DORMANCY_WARNING_DAYS,
+    thresholdDays
+  );
+  return { thresholdDays, warningDays };
+};
+
+/**
+ * Active, non-exempt accounts with no login and no status change since
+ * `cutoff`. A reactivation counts as activity, so reactivated accounts are
+ * not deactivated again straight away.
+ */
+const inactiveSince = (cutoff: Date) => ({
+  status: "Active",
+  erasedAt: null,
+  "dormancyExemption.exempt": { $ne: true },
+  $and: [
+    { $or: [{ lastLogin: null }, { lastLogin: { $lt: cutoff } }] },
+    {
+      $or: [{ lastStatusUpdate: null }, { lastStatusUpdate: { $lt: cutoff } }],
+    },
+  ],
+});
+
+const lastActivity = (user: {
+  lastLogin?: Date | null;
+  lastStatusUpdate?: Date | null;
+}) => {
+  const dates = [user.lastLogin, user.lastStatusUpdate].filter(
+    (date): date is Date => !!date
+  );
+  return dates.length
+    ? new Date(Math.max(...dates.map((d) => d.getTime())))
+    : null;
+};
+
+const sendDormancyWarning = (email: string, deactivateOn: Date) =>
+  transporter.sendMail({
+    from: MAIL_FROM,
+    to: email,
+    subject: "Your B-Trade account will be deactivated",
+    text: `You have not logged in to B-Trade for a long time. To keep your account active, log in before ${deactivateOn.toDateString()}. Otherwise it will be deactivated and an administrator will have to reactivate it.`,
+  });
+
+/**
+ * Warn accounts approaching the dormancy threshold and deactivate accounts
+ * that were warned and still did not log in. Returns the stored report, or
+ * null when a run is already in progress in this process.
+ */
+export const runDormancyCheck = async (
+  trigger: "schedule" | "manual",
+  triggeredBy: string | mongoose.Types.ObjectId | null = null
+) => {
+  if (running) return null;
+  running = true;
+
+  try {
+    const { thresholdDays, warningDays } = getDormancyPolicy();
+    const now = Date.now();
+    const run = await DormancyRun.create({
+      trigger,
+      triggeredBy,
+      thresholdDays,
+      warningDays,
+      startedAt: new Date(now),
+    });
+
+    const exemptCount = await User.countDocuments({
+      ...inactiveSince(new Date(now - (thresholdDays - warningDays) * DAY_MS)),
+      "dormancyExemption.exempt": true,
+    });
+
+    // Deactivate first so accounts warned in this run get their full notice
+    const dormant = await User.find({
+      ...inactiveSince(new Date(now - thresholdDays * DAY_MS)),
+      dormancyWarningSentAt: { $lte: new Date(now - warningDays * DAY_MS) },
+    }).select("email lastLogin lastStatusUpdate dormancyWarningSentAt");
+
+    for (const user of dormant) {
+      try {
+        // Claim the account so concurrent runs deactivate it only once
+        const claimed = await User.updateOne(
+          {
+            _id: user._id,
+            status: "Active",
+            dormancyWarningSentAt: user.dormancyWarningSentAt,
+          },
+          { $set: { dormancyWarningSentAt: null } }
+        );
+        if (claimed.modifiedCount === 0) continue;
+
+        await setUserStatus(user._id, "InActive", DORMANT_REASON, null);
+        await revokeAllSessions(user._id, DORMANT_REASON);
+        await sendStatusChangeEmail(user.email, "InActive", DORMANT_REASON);
+        run.deactivated.push({
+          userId: user._id,
+          email: user.email,
+          lastActivityAt: lastActivity(user),
+        });
+      } catch (error) {
+        run.failures.push({
+          userId: user._id,
+          message: error instanceof Error ? error.message : "Unknown",
+        });
+      }
+    }
+
+    const approaching = await User.find({
+      ...inactiveSince(new Date(now - (thresholdDays - warningDays) * DAY_MS)),
+      dormancyWarningSentAt: null,
+    }).select("email lastLogin lastStatusUpdate");
+
+    for (const user of approaching) {
+      try {
+        const claimed = await User.updateOne(
+          { _id: user._id, dormancyWarningSentAt: null },
+          { $set: { dormancyWarningSentAt: new Date() } }
+        );
+        if (claimed.modifiedCount === 0) continue;
+
+        try {
+          await sendDormancyWarning(
+            user.email,
+            new Date(now + warningDays * DAY_MS)
+          );
+        } catch (mailError) {
+          // Retry the warning on the next run
+          await User.updateOne(
+            { _id: user._id },
+            { $set: { dormancyWarningSentAt: null } }
+          );
+          throw mailError;
+        }
+        run.warned.push({
+          userId: user._id,
+          email: user.email,
+          lastActivityAt: lastActivity(user),
+        });
+      } catch (error) {
+        run.failures.push({
+          userId: user._id,
+          message: error instanceof Error ? error.message : "Unknown",
+        });
+      }
+    }
+
+    run.exemptCount = exemptCount;
+    run.finishedAt = new Date();
+    await run.save();
+    return run;
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Run the dormancy check once a day
+ */
+export const startDormancyJob = () => {
+  const run = () =>
+    runDormancyCheck("schedule").catch((error) =>
+      console.error("Error running dormancy check:", error)
+    );
+  run();
+  setInterval(run, DORMANCY_CHECK_HOURS * 60 * 60 * 1000);
+};
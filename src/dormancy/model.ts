@@ -0,0 +1,40 @@
+import mongoose from "mongoose";
+
+const dormancyUserSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+    },
+    email: { type: String, required: true },
+    lastActivityAt: { type: Date, default: null },
+  },
+  { _id: false }
+);
+
+// One row per run of the dormancy job, kept as its report
+const dormancyRunSchema = new mongoose.Schema(
+  {
+    trigger: { type: String, enum: ["schedule", "manual"], required: true },
+    triggeredBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      default: null,
+    },
+    thresholdDays: { type: Number, required: true },
+    warningDays: { type: Number, required: true },
+    startedAt: { type: Date, required: true },
+    finishedAt: { type: Date, default: null },
+    warned: [dormancyUserSchema],
+    deactivated: [dormancyUserSchema],
+    // Number of dormant accounts skipped because an admin exempted them
+    exemptCount: { type: Number, default: 0 },
+    failures: [{ userId: mongoose.Schema.Types.ObjectId, message: String }],
+  },
+  { timestamps: true }
+);
+
+dormancyRunSchema.index({ startedAt: -1 });
+
+export const DormancyRun = mongoose.model("dormancyruns", dormancyRunSchema);
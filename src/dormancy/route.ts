@@ -0,0 +1,433 @@
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { DormancyRun } from "./model";
+import { getDormancyPolicy, runDormancyCheck } from "./job";
+import { User } from "../user/model";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const dormancy = express.Router();
+
+/**
+ * @swagger
+ * /dormancy/runs:
+ *   get:
+ *     summary: Reports of past dormancy checks, newest first
+ *     description: The check runs daily. Accounts without a login or status change for DORMANCY_THRESHOLD_DAYS (default 365) are warned DORMANCY_WARNING_DAYS (default 30) ahead and then set to InActive with reason "dormant".
+ *     tags: [Dormancy]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Dormancy reports retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     policy:
+ *                       type: object
+ *                       properties:
+ *                         thresholdDays:
+ *                           type: integer
+ *                         warningDays:
+ *                           type: integer
+ *                     runs:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           trigger:
+ *                             type: string
+ *                             enum: [schedule, manual]
+ *                           startedAt:
+ *                             type: string
+ *                             format: date-time
+ *                           finishedAt:
+ *                             type: string
+ *                             format: date-time
+ *                           warnedCount:
+ *                             type: integer
+ *                           deactivatedCount:
+ *                             type: integer
+ *                           exemptCount:
+ *                             type: integer
+ *                           failureCount:
+ *                             type: integer
+ *                     total:
+ *                       type: integer
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+dormancy.get(
+  "/runs",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const page = Math.max(1, parseInt(String(req.query.page)) || 1);
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt(String(req.query.limit)) || 20)
+      );
+
+      const [runs, total] = await Promise.all([
+        DormancyRun.find()
+          .sort({ startedAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        DormancyRun.countDocuments(),
+      ]);
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Dormancy reports retrieved successfully",
+        data: {
+          policy: getDormancyPolicy(),
+          runs: runs.map((run) => ({
+            id: run._id,
+            trigger: run.trigger,
+            startedAt: run.startedAt,
+            finishedAt: run.finishedAt,
+            warnedCount: run.warned.length,
+            deactivatedCount: run.deactivated.length,
+            exemptCount: run.exemptCount,
+            failureCount: run.failures.length,
+          })),
+          total,
+          page,
+          limit,
+        },
+      });
+    } catch (error) {
+      console.error("Error retrieving dormancy reports:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /dormancy/runs/{runId}:
+ *   get:
+ *     summary: Full report of one dormancy check
+ *     description: Lists every account that was warned or deactivated, with its last activity.
+ *     tags: [Dormancy]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dormancy report retrieved successfully
+ *       404:
+ *         description: Report not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-19-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Dormancy report not found'
+ *       500:
+ *         description: Internal server error
+ */
+dormancy.get(
+  "/runs/:runId",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { runId } = req.params;
+      const run = mongoose.isValidObjectId(runId)
+        ? await DormancyRun.findById(runId).populate("triggeredBy", "email")
+        : null;
+      if (!run) {
+        return res.status(404).json({
+          code: "Error-19-0002",
+          status: "Error",
+          message: "Dormancy report not found",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Dormancy report retrieved successfully",
+        data: run,
+      });
+    } catch (error) {
+      console.error("Error retrieving dormancy report:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /dormancy/runs:
+ *   post:
+ *     summary: Run the dormancy check now
+ *     tags: [Dormancy]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Check finished; returns its report
+ *       409:
+ *         description: A check is already running
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-19-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'A dormancy check is already running'
+ *       500:
+ *         description: Internal server error
+ */
+dormancy.post(
+  "/runs",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const run = await runDormancyCheck("manual", req.user!.userId);
+      if (!run) {
+        return res.status(409).json({
+          code: "Error-19-0001",
+          status: "Error",
+          message: "A dormancy check is already running",
+        });
+      }
+
+      res.status(201).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Dormancy check finished",
+        data: run,
+      });
+    } catch (error) {
+      console.error("Error running dormancy check:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /dormancy/exemptions:
+ *   get:
+ *     summary: Accounts excluded from automatic deactivation
+ *     tags: [Dormancy]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Exemptions retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+dormancy.get(
+  "/exemptions",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const users = await User.find({ "dormancyExemption.exempt": true })
+        .select("email role status lastLogin dormancyExemption")
+        .populate("dormancyExemption.setBy", "email")
+        .sort({ "dormancyExemption.setAt": -1 });
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Exemptions retrieved successfully",
+        data: users,
+      });
+    } catch (error) {
+      console.error("Error retrieving dormancy exemptions:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /dormancy/exemptions/{userId}:
+ *   put:
+ *     summary: Exclude an account from automatic deactivation, or include it again
+ *     description: Use for service or rarely used staff accounts. Exempting an account cancels a pending dormancy warning.
+ *     tags: [Dormancy]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - exempt
+ *             properties:
+ *               exempt:
+ *                 type: boolean
+ *               reason:
+ *                 type: string
+ *                 description: Required when exempting
+ *                 example: 'Regulator audit account, used once a year'
+ *     responses:
+ *       200:
+ *         description: Exemption updated
+ *       400:
+ *         description: Missing exempt flag or reason
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-19-0003'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'reason is required to exempt an account'
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+dormancy.put(
+  "/exemptions/:userId",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { exempt, reason } = req.body;
+      if (typeof exempt !== "boolean") {
+        return res.status(400).json({
+          code: "Error-19-0003",
+          status: "Error",
+          message: "exempt must be true or false",
+        });
+      }
+      if (exempt && (!reason || typeof reason !== "string")) {
+        return res.status(400).json({
+          code: "Error-19-0003",
+          status: "Error",
+          message: "reason is required to exempt an account",
+        });
+      }
+
+      const { userId } = req.params;
+      const result = mongoose.isValidObjectId(userId)
+        ? await User.updateOne(
+            { _id: userId },
+            {
+              $set: {
+                dormancyExemption: {
+                  exempt,
+                  reason: exempt ? reason : "",
+                  setBy: req.user!.userId,
+                  setAt: new Date(),
+                },
+                ...(exempt ? { dormancyWarningSentAt: null } : {}),
+              },
+            }
+          )
+        : null;
+      if (!result || result.matchedCount === 0) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: exempt
+          ? "Account excluded from dormancy deactivation"
+          : "Account included in dormancy deactivation",
+      });
+    } catch (error) {
+      console.error("Error updating dormancy exemption:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
@@ -10,6 +10,14 @@ export interface IEnrollment extends Document {
   verifiedBy?: mongoose.Types.ObjectId;
   verifiedAt?: Date;
   cancelledAt?: Date;
+  renewal?: {
+    policyVersion: number;
+    extended: boolean;
+    reason?: string | null;
+    qualifyingHours: number;
+    previousEndDate?: Date | null;
+    endDate?: Date | null;
+  };
 }
 
 const EnrollmentSchema: Schema = new Schema(
@@ -51,6 +59,15 @@ const EnrollmentSchema: Schema = new Schema(
     cancelledAt: {
       type: Date,
     },
+    // Outcome of the renewal policy applied when the enrollment was approved
+    renewal: {
+      policyVersion: { type: Number },
+      extended: { type: Boolean },
+      reason: { type: String, default: null },
+      qualifyingHours: { type: Number },
+      previousEndDate: { type: Date, default: null },
+      endDate: { type: Date, default: null },
+    },
   },
   {
     timestamps: true,
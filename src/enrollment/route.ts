@@ -3,11 +3,17 @@ import { Enrollment } from "./model";
 import dayjs from "dayjs";
 import utc from "dayjs/plugin/utc";
 import timezone from "dayjs/plugin/timezone";
-import durationPlugin from "dayjs/plugin/duration";
 import { Trader } from "../trader/model";
+import { getLicenceStatus } from "../trader/licence";
+import { evaluateRenewal } from "../renewalPolicy/engine";
 import mongoose from "mongoose";
 import { Course as CourseModel } from "../course/model";
-import { checkAdminRole, verifyToken } from "../../middleware/middleware";
+import {
+  hasPermission,
+  requirePermission,
+  verifyToken,
+} from "../../middleware/middleware";
+import { User } from "../user/model";
 const Course = CourseModel as unknown as mongoose.Model<CourseDocument>;
 
 // Define interfaces for the additional properties not in the original Course schema
@@ -53,7 +59,6 @@ require("dotenv").config();
 // Extend dayjs with plugins
 dayjs.extend(utc);
 dayjs.extend(timezone);
-dayjs.extend(durationPlugin);
 
 // Set default timezone
 dayjs.tz.setDefault("Asia/Bangkok");
@@ -66,7 +71,7 @@ export const enrollment = express.Router();
 enrollment.get(
   "/pending-enrollments",
   verifyToken,
-  checkAdminRole,
+  requirePermission("enrollment:read"),
   async (req: Request, res: Response) => {
     try {
       const pendingEnrollments = await Enrollment.find({ status: "pending" });
@@ -146,7 +151,10 @@ enrollment.get(
         });
       }
 
-      if (requestUser.userId !== userId && requestUser.role !== "admin") {
+      if (
+        requestUser.userId !== userId &&
+        !(await hasPermission(requestUser, "enrollment:read"))
+      ) {
         return res.status(403).json({
           code: "Error-05-0003",
           status: "Error",
@@ -242,7 +250,10 @@ enrollment.get(
         });
       }
 
-      if (requestUser.userId !== userId && requestUser.role !== "admin") {
+      if (
+        requestUser.userId !== userId &&
+        !(await hasPermission(requestUser, "enrollment:read"))
+      ) {
         return res.status(403).json({
           code: "Error-04-0001",
           status: "Error",
@@ -312,7 +323,7 @@ enrollment.get(
 enrollment.get(
   "/validated-enrollments",
   verifyToken,
-  checkAdminRole,
+  requirePermission("enrollment:read"),
   async (req: Request, res: Response) => {
     try {
       const validatedEnrollments = await Enrollment.find({
@@ -414,7 +425,10 @@ enrollment.post(
         });
       }
 
-      if (requestUser.userId !== userId && requestUser.role !== "admin") {
+      if (
+        requestUser.userId !== userId &&
+        !(await hasPermission(requestUser, "enrollment:approve"))
+      ) {
         return res.status(403).json({
           code: "Error-01-0008",
           status: "Error",
@@ -468,7 +482,7 @@ enrollment.post(
 enrollment.post(
   "/action",
   verifyToken,
-  checkAdminRole,
+  requirePermission("enrollment:approve"),
   async (req: Request, res: Response) => {
     try {
       const { adminId, userId, courseId, action } = req.body;
@@ -572,81 +586,26 @@ enrollment.post(
           },
         });
       } else if (action === "approve") {
-        // Update enrollment status
-        enrollment.status = "approved";
-        await enrollment.save();
-
         // Mark the training as completed
         trader.trainings[trainingIndex].isCompleted = true;
 
-        const now = dayjs().tz("Asia/Bangkok");
-
-        // Initialize `startDate` if not set - first time approval
-        if (!trader.startDate) {
-          trader.startDate = now.toDate();
-
-          // Set `endDate` to be EXACTLY 2 years from the start date
-          // Using the same day, month, and hour but 2 years later
-          const exactStartDate = dayjs(trader.startDate);
-          trader.endDate = exactStartDate.add(2, "year").toDate();
-        } else {
-          const exactStartDate = dayjs(trader.startDate);
-          const currentEndDate = trader.endDate
-            ? dayjs(trader.endDate)
-            : exactStartDate;
-
-          let newEndDate;
-
-          if (currentEndDate.isBefore(now)) {
-            // If expired, reset to 1 year from now
-            newEndDate = now.add(1, "year");
-          } else {
-            // For an active trader, add up to 1 year to current end date
-            newEndDate = currentEndDate.add(1, "year");
-          }
-
-          // Exact 2-year limit from start date
-          const exactTwoYearsFromStart = exactStartDate.add(2, "year");
-
-          // Cap at exactly 2 years from start date
-          if (newEndDate.isAfter(exactTwoYearsFromStart)) {
-            newEndDate = exactTwoYearsFromStart;
-          }
-
-          trader.endDate = newEndDate.toDate();
+        // Apply the renewal policy in force now and record its version
+        const renewal = await evaluateRenewal(trader, course);
+        if (renewal.extended) {
+          trader.startDate = renewal.startDate!;
+          trader.endDate = renewal.endDate!;
         }
 
-        // Ensure the exact calculation of 2 years is applied
-        const exactStartDate = dayjs(trader.startDate);
-        const exactTwoYears = exactStartDate.add(2, "year");
-
-        if (dayjs(trader.endDate).isAfter(exactTwoYears)) {
-          trader.endDate = exactTwoYears.toDate();
-        }
-
-        // Calculate remaining time (actual time left from now until end date)
-        const remainingTime = dayjs(trader.endDate).diff(now);
-
-        if (remainingTime > 0) {
-          // Calculate remaining time display (actual time remaining)
-          const remainingDuration = dayjs.duration(remainingTime);
-
-          trader.remainingTimeDisplay = {
-            years: Math.floor(remainingDuration.asYears()),
-            months: Math.floor(remainingDuration.asMonths() % 12),
-            days: Math.floor(remainingDuration.asDays() % 30),
-          };
-        } else {
-          // No remaining time
-          trader.remainingTimeDisplay = { years: 0, months: 0, days: 0 };
-        }
-
-        // Set durationDisplay to exactly 2 years
-        trader.durationDisplay = {
-          years: 2,
-          months: 0,
-          days: 0,
+        enrollment.status = "approved";
+        enrollment.renewal = {
+          policyVersion: renewal.policyVersion,
+          extended: renewal.extended,
+          reason: renewal.reason,
+          qualifyingHours: renewal.qualifyingHours,
+          previousEndDate: renewal.previousEndDate,
+          endDate: renewal.endDate,
         };
+        await enrollment.save();
 
         // Remove user from waitingForApproveList if they're in it
         if (
@@ -666,6 +625,8 @@ enrollment.post(
         // Save trader
         await trader.save();
 
+        const licence = getLicenceStatus(trader);
+
         return res.status(200).json({
           code: "Success-03-0002",
           status: "Success",
@@ -679,10 +640,12 @@ enrollment.post(
               status: {
                 startDate: trader.startDate,
                 endDate: trader.endDate,
-                duration: "2 ปี 0 เดือน 0 วัน", // Exactly 2 years
-                remainingTime: `${trader.remainingTimeDisplay.years} ปี ${trader.remainingTimeDisplay.months} เดือน ${trader.remainingTimeDisplay.days} วัน`,
+                duration: `${licence.duration.years} ปี ${licence.duration.months} เดือน ${licence.duration.days} วัน`,
+                remainingTime: `${licence.remaining.years} ปี ${licence.remaining.months} เดือน ${licence.remaining.days} วัน`,
               },
+              licence,
             },
+            renewal,
           },
         });
       }
@@ -710,7 +673,7 @@ enrollment.post(
 enrollment.post(
   "/generateCode",
   verifyToken,
-  checkAdminRole,
+  requirePermission("enrollment:code"),
   async (req: Request, res: Response) => {
     try {
       const { courseId } = req.body;
@@ -1004,6 +967,16 @@ enrollment.post(
         });
       }
 
+      // Only accounts with a verified email address may register
+      const account = await User.findById(userId);
+      if (account && !account.emailVerified) {
+        return res.status(403).json({
+          code: "Error-02-0012",
+          status: "Error",
+          message: "Please verify your email address before registering",
+        });
+      }
+
       // Find the trader
       const trader = await Trader.findOne({ userId });
       if (!trader) {
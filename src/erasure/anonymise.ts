@@ -0,0 +1,189 @@
+import bcrypt from "bcrypt";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { User } from "../user/model";
+import { setUserStatus } from "../user/status";
+import { Trader } from "../trader/model";
+import { Enrollment } from "../enrollment/model";
+import { Payment, PAYMENT_METADATA_KEYS } from "../payment/model";
+import { Session } from "../session/model";
+import { DataExport } from "../dataExport/model";
+import { Invite } from "../invite/model";
+import { Consent } from "../consent/model";
+import { LoginEvent, MagicLink, PasswordReset } from "../auth/model";
+import { forgetLoginFailures } from "../auth/lockout";
+import { ERASURE_STEPS, ErasureStep } from "./model";
+
+// Why each kind of record survives an erasure request (PDPA section 24(6))
+export const RETENTION_LEGAL_BASIS = {
+  payments:
+    "Legal obligation: accounting records must be kept for 5 years under the Accounting Act B.E. 2543. Customer name, email and checkout details were anonymised.",
+  enrollments:
+    "Legal obligation: course enrollment and attendance records evidence licence training required by the SEC.",
+  trainings:
+    "Legal obligation: completed training hours evidence licence renewal required by the SEC.",
+  consents:
+    "Legal claims: proof of what the user agreed to. IP address and user agent were removed.",
+} as const;
+
+export const ERASED_NAME = "Erased user";
+
+// Names the step that failed so the request can record it
+export class ErasureStepError extends Error {
+  constructor(readonly step: ErasureStep, readonly error: unknown) {
+    super(`Erasure step "${step}" failed: ${String(error)}`);
+  }
+}
+
+export const erasedEmail = (userId: string | mongoose.Types.ObjectId) =>
+  `erased-${userId}@erased.invalid`;
+
+interface AnonymiseProgress {
+  // Steps finished by an earlier, interrupted attempt
+  completedSteps: ErasureStep[];
+  onStepCompleted: (step: ErasureStep) => Promise<unknown>;
+}
+
+/**
+ * Replace the personal data of a user and their trader profile with
+ * placeholders. Financial and training records stay linked to the
+ * anonymised account; the returned list says what was kept and why.
+ * Steps listed in `progress.completedSteps` are skipped. originalEmail is
+ * null when an earlier attempt already replaced the account email.
+ */
+export const anonymiseUser = async (
+  userId: string | mongoose.Types.ObjectId,
+  erasedBy: string | mongoose.Types.ObjectId,
+  progress: AnonymiseProgress
+) => {
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const accountErased = progress.completedSteps.includes("account");
+  const originalEmail = accountErased ? null : user.email;
+  const placeholderEmail = erasedEmail(user._id);
+  const trader = await Trader.findOne({ userId: user._id });
+
+  const steps: Record<ErasureStep, () => Promise<unknown>> = {
+    // Blocks logins while the rest runs
+    deactivate: () =>
+      setUserStatus(user._id, "InActive", "Personal data erased", erasedBy),
+
+    trader: async () => {
+      if (!trader) return;
+      await Trader.updateOne(
+        { _id: trader._id },
+        {
+          $set: {
+            name: ERASED_NAME,
+            email: placeholderEmail,
+            idCard: null,
+            phoneNumber: null,
+            profileIncomplete: true,
+            isDeleted: true,
+          },
+        }
+      );
+    },
+
+    payments: () =>
+      Payment.updateMany({ userId: String(user._id) }, [
+        {
+          $set: {
+            customerEmail: placeholderEmail,
+            customerName: ERASED_NAME,
+            // Client-supplied metadata may name the user; keep only the ids
+            metadata: Object.fromEntries(
+              PAYMENT_METADATA_KEYS.map((key) => [key, `$metadata.${key}`])
+            ),
+          },
+        },
+      ]),
+
+    // Credentials, device details and pending links are not needed any more
+    credentials: () =>
+      Promise.all([
+        Session.deleteMany({ userId: user._id }),
+        LoginEvent.deleteMany({
+          $or: [{ userId: user._id }, { email: user.email }],
+        }),
+        forgetLoginFailures(user.email),
+        PasswordReset.deleteMany({ userId: user._id }),
+        MagicLink.deleteMany({ userId: user._id }),
+        DataExport.deleteMany({ userId: user._id }),
+        Invite.updateMany(
+          { email: user.email },
+          { $set: { email: placeholderEmail } }
+        ),
+      ]),
+
+    consents: () =>
+      Consent.updateMany(
+        { userId: user._id },
+        { $set: { ip: "", userAgent: "" } }
+      ),
+
+    // Last, because the steps before it find records by the original email
+    account: async () =>
+      User.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            email: placeholderEmail,
+            // Nobody knows this password, so the account cannot be used again
+            password: await bcrypt.hash(
+              crypto.randomBytes(32).toString("hex"),
+              10
+            ),
+            passwordHistory: [],
+            externalIdentities: [],
+            twoFactor: { enabled: false },
+            erasedAt: new Date(),
+          },
+        }
+      ),
+  };
+
+  for (const step of ERASURE_STEPS) {
+    if (progress.completedSteps.includes(step)) continue;
+    try {
+      await steps[step]();
+    } catch (error) {
+      throw new ErasureStepError(step, error);
+    }
+    await progress.onStepCompleted(step);
+  }
+
+  const [paymentCount, enrollmentCount, consentCount] = await Promise.all([
+    Payment.countDocuments({ userId: String(user._id) }),
+    Enrollment.countDocuments({ userId: user._id }),
+    Consent.countDocuments({ userId: user._id }),
+  ]);
+
+  const retained = [
+    {
+      recordType: "payments",
+      count: paymentCount,
+      legalBasis: RETENTION_LEGAL_BASIS.payments,
+    },
+    {
+      recordType: "enrollments",
+      count: enrollmentCount,
+      legalBasis: RETENTION_LEGAL_BASIS.enrollments,
+    },
+    {
+      recordType: "trainings",
+      count: trader?.trainings.length ?? 0,
+      legalBasis: RETENTION_LEGAL_BASIS.trainings,
+    },
+    {
+      recordType: "consents",
+      count: consentCount,
+      legalBasis: RETENTION_LEGAL_BASIS.consents,
+    },
+  ].filter((record) => record.count > 0);
+
+  return { originalEmail, retained };
+};
@@ -0,0 +1,73 @@
+import mongoose from "mongoose";
+
+export const ERASURE_REQUEST_STATUSES = [
+  "pending",
+  "approved",
+  "rejected",
+  "completed",
+] as const;
+
+// Anonymisation runs in these steps, in order. Each one can be repeated
+// safely, so a run that fails part-way resumes after the last completed step.
+export const ERASURE_STEPS = [
+  "deactivate",
+  "trader",
+  "payments",
+  "credentials",
+  "consents",
+  "account",
+] as const;
+
+export type ErasureStep = (typeof ERASURE_STEPS)[number];
+
+// A user's request to have their personal data erased (PDPA right to
+// erasure). Reviewed by an administrator before anything is anonymised.
+const erasureRequestSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+      index: true,
+    },
+    reason: { type: String, default: "" },
+    status: {
+      type: String,
+      enum: ERASURE_REQUEST_STATUSES,
+      default: "pending",
+      index: true,
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      default: null,
+    },
+    reviewedAt: { type: Date, default: null },
+    rejectionReason: { type: String, default: "" },
+    completedAt: { type: Date, default: null },
+    completedSteps: [
+      {
+        _id: false,
+        step: { type: String, enum: ERASURE_STEPS, required: true },
+        completedAt: { type: Date, required: true },
+      },
+    ],
+    // Step that failed in the last attempt, if any
+    failedStep: { type: String, default: null },
+    // Records that were kept rather than erased, and why
+    retained: [
+      {
+        _id: false,
+        recordType: { type: String, required: true },
+        count: { type: Number, required: true },
+        legalBasis: { type: String, required: true },
+      },
+    ],
+  },
+  { timestamps: true }
+);
+
+export const ErasureRequest = mongoose.model(
+  "erasurerequests",
+  erasureRequestSchema
+);
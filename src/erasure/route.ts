@@ -0,0 +1,522 @@
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { ErasureRequest, ERASURE_REQUEST_STATUSES } from "./model";
+import { anonymiseUser, ErasureStepError } from "./anonymise";
+import { User } from "../user/model";
+import { MAIL_FROM, transporter } from "../auth/mailer";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const erasure = express.Router();
+
+/**
+ * @swagger
+ * /erasure-request:
+ *   post:
+ *     summary: Ask for your personal data to be erased (PDPA)
+ *     description: An administrator reviews the request. Once approved, your name, ID card number, email and phone number are anonymised and you can no longer log in. Payment, enrollment and training records are kept where the law requires it.
+ *     tags: [Erasure]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: 'I have left the securities industry'
+ *     responses:
+ *       201:
+ *         description: Erasure requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-17-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Erasure requested. We will email you once it has been reviewed.'
+ *       409:
+ *         description: A request is already waiting for review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-17-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'An erasure request is already waiting for review'
+ *       500:
+ *         description: Internal server error
+ */
+erasure.post("/", verifyToken, async (req: Request, res: Response) => {
+  try {
+    const reason = req.body?.reason;
+
+    const open = await ErasureRequest.findOne({
+      userId: req.user!.userId,
+      status: { $in: ["pending", "approved"] },
+    });
+    if (open) {
+      return res.status(409).json({
+        code: "Error-17-0001",
+        status: "Error",
+        message: "An erasure request is already waiting for review",
+      });
+    }
+
+    const created = await ErasureRequest.create({
+      userId: req.user!.userId,
+      reason: typeof reason === "string" ? reason : "",
+    });
+
+    res.status(201).json({
+      code: "Success-17-0001",
+      status: "Success",
+      message:
+        "Erasure requested. We will email you once it has been reviewed.",
+      data: { id: created._id, status: created.status },
+    });
+  } catch (error) {
+    console.error("Error requesting erasure:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /erasure-request/me:
+ *   get:
+ *     summary: List your own erasure requests, newest first
+ *     tags: [Erasure]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Erasure requests retrieved successfully
+ *       500:
+ *         description: Internal server error
+ */
+erasure.get("/me", verifyToken, async (req: Request, res: Response) => {
+  try {
+    const requests = await ErasureRequest.find({ userId: req.user!.userId })
+      .select("status reason rejectionReason reviewedAt createdAt")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      code: "Success-01-0001",
+      status: "Success",
+      message: "Erasure requests retrieved successfully",
+      data: requests,
+    });
+  } catch (error) {
+    console.error("Error retrieving erasure requests:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /erasure-request:
+ *   get:
+ *     summary: Erasure requests for review, newest first
+ *     tags: [Erasure]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, completed]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Erasure requests retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+erasure.get(
+  "/",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const page = Math.max(1, parseInt(String(req.query.page)) || 1);
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt(String(req.query.limit)) || 20)
+      );
+
+      const filter: Record<string, unknown> = {};
+      const status = req.query.status;
+      if (
+        typeof status === "string" &&
+        (ERASURE_REQUEST_STATUSES as readonly string[]).includes(status)
+      ) {
+        filter.status = status;
+      }
+
+      const [requests, total] = await Promise.all([
+        ErasureRequest.find(filter)
+          .populate("userId", "email")
+          .populate("reviewedBy", "email")
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        ErasureRequest.countDocuments(filter),
+      ]);
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Erasure requests retrieved successfully",
+        data: { requests, total, page, limit },
+      });
+    } catch (error) {
+      console.error("Error retrieving erasure requests:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /erasure-request/{requestId}/approve:
+ *   post:
+ *     summary: Approve an erasure request and anonymise the user
+ *     description: Replaces the user's and trader's name, ID card number, email and phone number with placeholders, strips checkout metadata from payments, deletes sessions, login history and pending links, and deactivates the account. Payment, enrollment and training records are kept; the response lists them with the legal basis for keeping them. The user is emailed at their original address. Each step is recorded on the request; if one fails the request returns to pending with `failedStep` set, and approving it again resumes after the completed steps.
+ *     tags: [Erasure]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User anonymised
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-17-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Personal data erased'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     retained:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           recordType:
+ *                             type: string
+ *                             example: 'payments'
+ *                           count:
+ *                             type: integer
+ *                           legalBasis:
+ *                             type: string
+ *       400:
+ *         description: Request already reviewed or made by the reviewer
+ *       404:
+ *         description: Erasure request not found
+ *       500:
+ *         description: Internal server error
+ */
+erasure.post(
+  "/:requestId/approve",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { requestId } = req.params;
+      const record = mongoose.isValidObjectId(requestId)
+        ? await ErasureRequest.findById(requestId)
+        : null;
+      if (!record) {
+        return res.status(404).json({
+          code: "Error-17-0002",
+          status: "Error",
+          message: "Erasure request not found",
+        });
+      }
+
+      if (record.userId.toString() === req.user!.userId) {
+        return res.status(400).json({
+          code: "Error-17-0004",
+          status: "Error",
+          message: "You cannot review your own erasure request",
+        });
+      }
+
+      // Claim the request so two reviewers cannot process it at once
+      const claimed = await ErasureRequest.findOneAndUpdate(
+        { _id: record._id, status: "pending" },
+        {
+          $set: {
+            status: "approved",
+            reviewedBy: req.user!.userId,
+            reviewedAt: new Date(),
+          },
+        }
+      );
+      if (!claimed) {
+        return res.status(400).json({
+          code: "Error-17-0003",
+          status: "Error",
+          message: "Erasure request has already been reviewed",
+        });
+      }
+
+      let result;
+      try {
+        result = await anonymiseUser(record.userId, req.user!.userId, {
+          completedSteps: record.completedSteps.map((done) => done.step),
+          onStepCompleted: (step) =>
+            ErasureRequest.updateOne(
+              { _id: record._id },
+              { $push: { completedSteps: { step, completedAt: new Date() } } }
+            ),
+        });
+      } catch (anonymiseError) {
+        // Back to pending so it can be approved again; completed steps are
+        // kept and skipped next time
+        await ErasureRequest.updateOne(
+          { _id: record._id },
+          {
+            $set: {
+              status: "pending",
+              reviewedBy: null,
+              reviewedAt: null,
+              failedStep:
+                anonymiseError instanceof ErasureStepError
+                  ? anonymiseError.step
+                  : null,
+            },
+          }
+        );
+        throw anonymiseError;
+      }
+
+      await ErasureRequest.updateOne(
+        { _id: record._id },
+        {
+          $set: {
+            status: "completed",
+            completedAt: new Date(),
+            retained: result.retained,
+            failedStep: null,
+            // The user's own words may identify them
+            reason: "",
+          },
+        }
+      );
+
+      // Null when an earlier attempt already replaced the email, in which
+      // case there is no address left to confirm to
+      const originalEmail = result.originalEmail;
+      if (originalEmail) {
+        try {
+          const kept = result.retained
+            .map((item) => `- ${item.recordType}: ${item.legalBasis}`)
+            .join("\n");
+          await transporter.sendMail({
+            from: MAIL_FROM,
+            to: originalEmail,
+            subject: "Your B-Trade personal data has been erased",
+            text: `As requested, your name, ID card number, email address and phone number have been erased from B-Trade and your account has been closed.${
+              kept
+                ? `\n\nThe following records were kept without your personal details because the law requires it:\n${kept}`
+                : ""
+            }\n\nThis is the last email we will send you.`,
+          });
+        } catch (mailError) {
+          console.error("Error sending erasure confirmation email:", mailError);
+        }
+      }
+
+      res.status(200).json({
+        code: "Success-17-0002",
+        status: "Success",
+        message: "Personal data erased",
+        data: { retained: result.retained },
+      });
+    } catch (error) {
+      console.error("Error approving erasure request:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /erasure-request/{requestId}/reject:
+ *   post:
+ *     summary: Reject an erasure request
+ *     description: The user is emailed the reason.
+ *     tags: [Erasure]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: 'Outstanding enrollment payment dispute'
+ *     responses:
+ *       200:
+ *         description: Erasure request rejected
+ *       400:
+ *         description: Missing reason, request already reviewed or made by the reviewer
+ *       404:
+ *         description: Erasure request not found
+ *       500:
+ *         description: Internal server error
+ */
+erasure.post(
+  "/:requestId/reject",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const reason = req.body?.reason;
+      if (!reason || typeof reason !== "string") {
+        return res.status(400).json({
+          code: "Error-17-0005",
+          status: "Error",
+          message: "reason is required",
+        });
+      }
+
+      const { requestId } = req.params;
+      const record = mongoose.isValidObjectId(requestId)
+        ? await ErasureRequest.findById(requestId)
+        : null;
+      if (!record) {
+        return res.status(404).json({
+          code: "Error-17-0002",
+          status: "Error",
+          message: "Erasure request not found",
+        });
+      }
+
+      if (record.userId.toString() === req.user!.userId) {
+        return res.status(400).json({
+          code: "Error-17-0004",
+          status: "Error",
+          message: "You cannot review your own erasure request",
+        });
+      }
+
+      const rejected = await ErasureRequest.findOneAndUpdate(
+        { _id: record._id, status: "pending" },
+        {
+          $set: {
+            status: "rejected",
+            rejectionReason: reason,
+            reviewedBy: req.user!.userId,
+            reviewedAt: new Date(),
+          },
+        }
+      );
+      if (!rejected) {
+        return res.status(400).json({
+          code: "Error-17-0003",
+          status: "Error",
+          message: "Erasure request has already been reviewed",
+        });
+      }
+
+      const user = await User.findById(record.userId).select("email");
+      if (user) {
+        try {
+          await transporter.sendMail({
+            from: MAIL_FROM,
+            to: user.email,
+            subject: "Your B-Trade erasure request was not approved",
+            text: `We could not erase your personal data at this time.\n\nReason: ${reason}\n\nIf you have questions, please contact support.`,
+          });
+        } catch (mailError) {
+          console.error("Error sending erasure rejection email:", mailError);
+        }
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Erasure request rejected",
+      });
+    } catch (error) {
+      console.error("Error rejecting erasure request:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
@@ -0,0 +1,44 @@
+import mongoose from "mongoose";
+
+// Audit record of one support session in which an admin acted as a user
+const impersonationSchema = new mongoose.Schema(
+  {
+    impersonatorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+      index: true,
+    },
+    sessionId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "sessions",
+      required: true,
+      unique: true,
+    },
+    reason: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    endedAt: { type: Date, default: null },
+    // Every API call made with the impersonation token
+    requests: [
+      {
+        method: String,
+        path: String,
+        statusCode: Number,
+        blocked: { type: Boolean, default: false },
+        at: { type: Date, default: Date.now },
+      },
+    ],
+  },
+  { timestamps: true }
+);
+
+export const Impersonation = mongoose.model(
+  "impersonations",
+  impersonationSchema
+);
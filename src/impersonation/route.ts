@@ -0,0 +1,430 @@
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Impersonation } from "./model";
+import { User } from "../user/model";
+import { findRole } from "../role/model";
+import { createImpersonationSession, revokeSession } from "../auth/token";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const impersonation = express.Router();
+
+// Impersonation tokens are short-lived and cannot be refreshed
+const DEFAULT_IMPERSONATION_MINUTES = 30;
+const MAX_IMPERSONATION_MINUTES = 60;
+
+/**
+ * @swagger
+ * /impersonation:
+ *   post:
+ *     summary: Start acting as a user for support
+ *     description: Issues a short-lived, read-only access token for the user. Write requests made with it are rejected and every request is recorded in the impersonation audit log. Only users whose role grants no permissions can be impersonated.
+ *     tags: [Impersonation]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - reason
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 example: '60d21b4667d0d8992e610c85'
+ *               reason:
+ *                 type: string
+ *                 example: 'Ticket #1234: trainings not shown'
+ *               durationMinutes:
+ *                 type: integer
+ *                 example: 30
+ *                 maximum: 60
+ *     responses:
+ *       201:
+ *         description: Impersonation started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-13-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Impersonation started'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Missing reason, invalid duration or the caller's own account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-13-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'userId and reason are required'
+ *       403:
+ *         description: Insufficient permissions or the target user holds privileges
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+impersonation.post(
+  "/",
+  verifyToken,
+  requirePermission("user:impersonate"),
+  async (req: Request, res: Response) => {
+    try {
+      const { userId, reason, durationMinutes } = req.body;
+
+      if (!userId || !reason || typeof reason !== "string") {
+        return res.status(400).json({
+          code: "Error-13-0001",
+          status: "Error",
+          message: "userId and reason are required",
+        });
+      }
+
+      const minutes =
+        durationMinutes === undefined
+          ? DEFAULT_IMPERSONATION_MINUTES
+          : Number(durationMinutes);
+      if (
+        !Number.isInteger(minutes) ||
+        minutes < 1 ||
+        minutes > MAX_IMPERSONATION_MINUTES
+      ) {
+        return res.status(400).json({
+          code: "Error-13-0001",
+          status: "Error",
+          message: `durationMinutes must be between 1 and ${MAX_IMPERSONATION_MINUTES}`,
+        });
+      }
+
+      if (userId === req.user!.userId) {
+        return res.status(400).json({
+          code: "Error-13-0002",
+          status: "Error",
+          message: "You cannot impersonate yourself",
+        });
+      }
+
+      const target = mongoose.isValidObjectId(userId)
+        ? await User.findById(userId)
+        : null;
+      if (!target) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      // Acting as staff would hand out their privileges without their MFA
+      const targetRole = await findRole(target.role);
+      if (targetRole && targetRole.permissions.length > 0) {
+        return res.status(403).json({
+          code: "Error-13-0003",
+          status: "Error",
+          message:
+            "Users with administrative permissions cannot be impersonated",
+        });
+      }
+
+      const { token, sessionId, expiresAt } = await createImpersonationSession(
+        target,
+        req,
+        { impersonatorId: req.user!.userId, ttlMinutes: minutes }
+      );
+
+      await Impersonation.create({
+        impersonatorId: req.user!.userId,
+        userId: target._id,
+        sessionId,
+        reason,
+        expiresAt,
+      });
+
+      res.status(201).json({
+        code: "Success-13-0001",
+        status: "Success",
+        message: "Impersonation started",
+        data: {
+          token,
+          expiresAt,
+          user: {
+            id: target._id,
+            email: target.email,
+            role: target.role,
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Error starting impersonation:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /impersonation/status:
+ *   get:
+ *     summary: Tell the frontend whether the current token is an impersonation
+ *     description: Used to show the impersonation banner. Every response made with an impersonation token also carries an `X-Impersonated-By` header.
+ *     tags: [Impersonation]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Impersonation status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     active:
+ *                       type: boolean
+ *                     impersonator:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         email:
+ *                           type: string
+ *                     reason:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       500:
+ *         description: Internal server error
+ */
+impersonation.get(
+  "/status",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.user!.impersonatorId) {
+        return res.status(200).json({
+          code: "Success-01-0001",
+          status: "Success",
+          message: "Not impersonating",
+          data: { active: false },
+        });
+      }
+
+      const [record, impersonator] = await Promise.all([
+        Impersonation.findOne({ sessionId: req.user!.sessionId }).select(
+          "reason expiresAt"
+        ),
+        User.findById(req.user!.impersonatorId).select("email"),
+      ]);
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Impersonation active",
+        data: {
+          active: true,
+          impersonator: {
+            id: req.user!.impersonatorId,
+            email: impersonator?.email,
+          },
+          user: {
+            id: req.user!.userId,
+            email: req.user!.email,
+          },
+          reason: record?.reason,
+          expiresAt: record?.expiresAt,
+        },
+      });
+    } catch (error) {
+      console.error("Error retrieving impersonation status:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /impersonation/end:
+ *   post:
+ *     summary: End the current impersonation session
+ *     tags: [Impersonation]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Impersonation ended
+ *       400:
+ *         description: The token is not an impersonation token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-13-0004'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Not impersonating'
+ *       500:
+ *         description: Internal server error
+ */
+impersonation.post("/end", verifyToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user!.impersonatorId) {
+      return res.status(400).json({
+        code: "Error-13-0004",
+        status: "Error",
+        message: "Not impersonating",
+      });
+    }
+
+    await revokeSession(req.user!.sessionId, "impersonation-ended");
+    await Impersonation.updateOne(
+      { sessionId: req.user!.sessionId, endedAt: null },
+      { $set: { endedAt: new Date() } }
+    );
+
+    res.status(200).json({
+      code: "Success-01-0001",
+      status: "Success",
+      message: "Impersonation ended",
+    });
+  } catch (error) {
+    console.error("Error ending impersonation:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /impersonation:
+ *   get:
+ *     summary: Impersonation audit log, newest first
+ *     tags: [Impersonation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         description: Only sessions in which this user was impersonated
+ *       - in: query
+ *         name: impersonatorId
+ *         schema:
+ *           type: string
+ *         description: Only sessions started by this administrator
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Audit log retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+impersonation.get(
+  "/",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const page = Math.max(1, parseInt(String(req.query.page)) || 1);
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt(String(req.query.limit)) || 20)
+      );
+
+      const filter: Record<string, unknown> = {};
+      for (const field of ["userId", "impersonatorId"]) {
+        const value = req.query[field];
+        if (typeof value === "string" && mongoose.isValidObjectId(value)) {
+          filter[field] = value;
+        }
+      }
+
+      const [records, total] = await Promise.all([
+        Impersonation.find(filter)
+          .populate("impersonatorId", "email")
+          .populate("userId", "email")
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        Impersonation.countDocuments(filter),
+      ]);
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Impersonation audit log retrieved successfully",
+        data: { records, total, page, limit },
+      });
+    } catch (error) {
+      console.error("Error retrieving impersonation audit log:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
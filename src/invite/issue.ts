@@ -0,0 +1,49 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { Invite } from "./model";
+import { hashToken } from "../auth/token";
+
+// Invites are valid for a week unless the admin asks for less or more
+export const DEFAULT_INVITE_TTL_DAYS = 7;
+export const MAX_INVITE_TTL_DAYS = 30;
+
+interface IssueInviteOptions {
+  email: string;
+  role: string;
+  invitedBy: string | mongoose.Types.ObjectId;
+  days?: number;
+  // Account created ahead of time, e.g. by a trader import
+  userId?: mongoose.Types.ObjectId;
+}
+
+/**
+ * Store a new invite and return the link to email. Earlier pending invites
+ * for the same email are revoked so only the newest one works.
+ */
+export const issueInvite = async ({
+  email,
+  role,
+  invitedBy,
+  days = DEFAULT_INVITE_TTL_DAYS,
+  userId,
+}: IssueInviteOptions) => {
+  await Invite.updateMany(
+    { email, acceptedAt: null, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedBy: invitedBy } }
+  );
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const invite = await Invite.create({
+    email,
+    role,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+    invitedBy,
+    userId: userId ?? null,
+  });
+
+  return {
+    invite,
+    inviteUrl: `${process.env.FRONTEND_URL}/accept-invite?token=${token}`,
+  };
+};
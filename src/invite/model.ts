@@ -0,0 +1,40 @@
+import mongoose from "mongoose";
+
+// One-time signup link with a preassigned role, issued by an administrator
+const inviteSchema = new mongoose.Schema(
+  {
+    email: { type: String, required: true, index: true },
+    // Name of a document in the roles collection
+    role: { type: String, required: true },
+    // Only the SHA-256 hash of the emailed token is stored
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    invitedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+    },
+    // Set when the account already exists (bulk trader import); accepting
+    // the invite sets its password instead of creating a new account
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      default: null,
+    },
+    acceptedAt: { type: Date, default: null },
+    acceptedUserId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      default: null,
+    },
+    revokedAt: { type: Date, default: null },
+    revokedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+export const Invite = mongoose.model("invites", inviteSchema);
@@ -0,0 +1,486 @@
+import express, { Request, Response } from "express";
+import bcrypt from "bcrypt";
+import mongoose from "mongoose";
+import { Invite } from "./model";
+import {
+  DEFAULT_INVITE_TTL_DAYS,
+  issueInvite,
+  MAX_INVITE_TTL_DAYS,
+} from "./issue";
+import { User } from "../user/model";
+import { Role } from "../role/model";
+import { hashToken } from "../auth/token";
+import { checkPasswordPolicy } from "../auth/password";
+import { MAIL_FROM, transporter } from "../auth/mailer";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const invite = express.Router();
+
+type InviteStatus = "pending" | "accepted" | "revoked" | "expired";
+
+const inviteStatus = (record: {
+  acceptedAt?: Date | null;
+  revokedAt?: Date | null;
+  expiresAt: Date;
+}): InviteStatus => {
+  if (record.acceptedAt) return "accepted";
+  if (record.revokedAt) return "revoked";
+  if (record.expiresAt <= new Date()) return "expired";
+  return "pending";
+};
+
+/**
+ * @swagger
+ * /invite:
+ *   post:
+ *     summary: Invite someone to create an account with a preassigned role
+ *     description: Emails a one-time signup link. Earlier pending invites for the same email are revoked.
+ *     tags: [Invite]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - role
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: 'new.admin@example.com'
+ *               role:
+ *                 type: string
+ *                 example: 'admin'
+ *               expiresInDays:
+ *                 type: integer
+ *                 example: 7
+ *                 maximum: 30
+ *     responses:
+ *       201:
+ *         description: Invite sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-14-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Invite sent'
+ *       400:
+ *         description: Missing fields, unknown role or invalid expiry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-14-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'email and role are required'
+ *       409:
+ *         description: An account with this email already exists
+ *       500:
+ *         description: Internal server error
+ */
+invite.post(
+  "/",
+  verifyToken,
+  requirePermission("role:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { email, role, expiresInDays } = req.body;
+
+      if (!email || typeof email !== "string" || !role) {
+        return res.status(400).json({
+          code: "Error-14-0001",
+          status: "Error",
+          message: "email and role are required",
+        });
+      }
+
+      const days =
+        expiresInDays === undefined
+          ? DEFAULT_INVITE_TTL_DAYS
+          : Number(expiresInDays);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_INVITE_TTL_DAYS) {
+        return res.status(400).json({
+          code: "Error-14-0001",
+          status: "Error",
+          message: `expiresInDays must be between 1 and ${MAX_INVITE_TTL_DAYS}`,
+        });
+      }
+
+      const existingRole = await Role.findOne({ name: role });
+      if (!existingRole) {
+        return res.status(400).json({
+          code: "Error-14-0002",
+          status: "Error",
+          message: "Role not found",
+        });
+      }
+
+      const existingUser = await User.findOne({ email });
+      if (existingUser) {
+        return res.status(409).json({
+          code: "Error-14-0003",
+          status: "Error",
+          message: "An account with this email already exists",
+        });
+      }
+
+      const { invite: created, inviteUrl } = await issueInvite({
+        email,
+        role: existingRole.name,
+        invitedBy: req.user!.userId,
+        days,
+      });
+
+      await transporter.sendMail({
+        from: MAIL_FROM,
+        to: email,
+        subject: "You have been invited to B-Trade",
+        text: `You have been invited to join B-Trade as ${existingRole.name}. Click the following link within ${days} days to set your password and activate your account: ${inviteUrl}`,
+      });
+
+      res.status(201).json({
+        code: "Success-14-0001",
+        status: "Success",
+        message: "Invite sent",
+        data: {
+          id: created._id,
+          email: created.email,
+          role: created.role,
+          expiresAt: created.expiresAt,
+        },
+      });
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /invite:
+ *   get:
+ *     summary: List invites with who issued them
+ *     tags: [Invite]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, accepted, revoked, expired]
+ *     responses:
+ *       200:
+ *         description: Invites retrieved successfully
+ *       500:
+ *         description: Internal server error
+ */
+invite.get(
+  "/",
+  verifyToken,
+  requirePermission("role:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const invites = await Invite.find()
+        .select("-tokenHash")
+        .populate("invitedBy", "email")
+        .sort({ createdAt: -1 });
+
+      const data = invites
+        .map((record) => ({
+          ...record.toObject(),
+          status: inviteStatus(record),
+        }))
+        .filter(
+          (record) => !req.query.status || record.status === req.query.status
+        );
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Invites retrieved successfully",
+        data,
+      });
+    } catch (error) {
+      console.error("Error retrieving invites:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /invite/{inviteId}:
+ *   delete:
+ *     summary: Revoke a pending invite
+ *     tags: [Invite]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: inviteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invite revoked
+ *       400:
+ *         description: Invite was already accepted
+ *       404:
+ *         description: Invite not found
+ *       500:
+ *         description: Internal server error
+ */
+invite.delete(
+  "/:inviteId",
+  verifyToken,
+  requirePermission("role:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const record = mongoose.isValidObjectId(req.params.inviteId)
+        ? await Invite.findById(req.params.inviteId)
+        : null;
+      if (!record) {
+        return res.status(404).json({
+          code: "Error-14-0004",
+          status: "Error",
+          message: "Invite not found",
+        });
+      }
+
+      if (record.acceptedAt) {
+        return res.status(400).json({
+          code: "Error-14-0005",
+          status: "Error",
+          message: "Invite has already been accepted",
+        });
+      }
+
+      if (!record.revokedAt) {
+        record.revokedAt = new Date();
+        record.set("revokedBy", req.user!.userId);
+        await record.save();
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Invite revoked",
+      });
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /invite/accept:
+ *   post:
+ *     summary: Accept an invite and set the account password
+ *     description: Creates the account with the role chosen by the inviting admin, or sets the password of an account created by a trader import. The email address counts as verified. Log in through /login afterwards.
+ *     tags: [Invite]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the invite link
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       201:
+ *         description: Account created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-14-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Account created. You can now log in.'
+ *       400:
+ *         description: Invalid, expired or revoked invite, or password policy violation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-14-0006'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Invite is invalid or has expired. Please ask for a new one.'
+ *       409:
+ *         description: An account with this email already exists
+ *       500:
+ *         description: Internal server error
+ */
+invite.post("/accept", async (req: Request, res: Response) => {
+  const { token, password } = req.body;
+
+  if (!token || !password) {
+    return res.status(400).json({
+      code: "Error-02-0001",
+      status: "Error",
+      message: "Missing required fields: token and password.",
+    });
+  }
+
+  try {
+    const pendingFilter = {
+      tokenHash: hashToken(String(token)),
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    };
+
+    const record = await Invite.findOne(pendingFilter);
+    if (!record) {
+      return res.status(400).json({
+        code: "Error-14-0006",
+        status: "Error",
+        message: "Invite is invalid or has expired. Please ask for a new one.",
+      });
+    }
+
+    const violations = checkPasswordPolicy(password, { email: record.email });
+    if (violations.length > 0) {
+      return res.status(400).json({
+        code: "Error-11-0001",
+        status: "Error",
+        message: "Password does not meet the password policy.",
+        data: { violations },
+      });
+    }
+
+    // Accounts created by a trader import already exist and only need a password
+    const importedUser = record.userId
+      ? await User.findOne({ _id: record.userId, erasedAt: null })
+      : null;
+    if (record.userId && !importedUser) {
+      return res.status(400).json({
+        code: "Error-14-0006",
+        status: "Error",
+        message: "Invite is invalid or has expired. Please ask for a new one.",
+      });
+    }
+
+    if (!importedUser) {
+      const existingUser = await User.findOne({ email: record.email });
+      if (existingUser) {
+        return res.status(409).json({
+          code: "Error-14-0003",
+          status: "Error",
+          message: "An account with this email already exists",
+        });
+      }
+    }
+
+    // Claim the invite atomically so it can only be used once
+    const claimed = await Invite.findOneAndUpdate(pendingFilter, {
+      $set: { acceptedAt: new Date() },
+    });
+    if (!claimed) {
+      return res.status(400).json({
+        code: "Error-14-0006",
+        status: "Error",
+        message: "Invite is invalid or has expired. Please ask for a new one.",
+      });
+    }
+
+    const credentials = {
+      password: await bcrypt.hash(password, 10),
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+      passwordChangedAt: new Date(),
+    };
+
+    let newUser;
+    if (importedUser) {
+      importedUser.set(credentials);
+      newUser = await importedUser.save();
+    } else {
+      newUser = await User.create({
+        email: record.email,
+        role: record.role,
+        ...credentials,
+      });
+    }
+
+    await Invite.updateOne(
+      { _id: record._id },
+      { $set: { acceptedUserId: newUser._id } }
+    );
+
+    res.status(201).json({
+      code: "Success-14-0002",
+      status: "Success",
+      message: "Account created. You can now log in.",
+      data: {
+        userId: newUser._id,
+        email: newUser.email,
+        role: newUser.role,
+      },
+    });
+  } catch (error) {
+    console.error("Error accepting invite:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
@@ -0,0 +1,246 @@
+import dayjs from "dayjs";
+import mongoose from "mongoose";
+import { FirmContact, LicenceReminder } from "./model";
+import { Trader } from "../trader/model";
+import { User } from "../user/model";
+import { Course } from "../course/model";
+import { MAIL_FROM, transporter } from "../auth/mailer";
+
+// Days before Trader.endDate at which reminders go out
+// (LICENCE_REMINDER_DAYS overrides, e.g. "90,30,7")
+const DEFAULT_REMINDER_DAYS = [90, 30, 7];
+const RECOMMENDED_COURSE_COUNT = 3;
+const LICENCE_REMINDER_CHECK_HOURS = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// MongoDB duplicate key error, raised when a reminder was already claimed
+const DUPLICATE_KEY = 11000;
+
+let running = false;
+
+export const getReminderOffsets = () => {
+  const configured = (process.env.LICENCE_REMINDER_DAYS || "")
+    .split(",")
+    .map((value) => parseInt(value.trim()))
+    .filter((value) => Number.isInteger(value) && value > 0);
+  const offsets = configured.length ? configured : DEFAULT_REMINDER_DAYS;
+  return Array.from(new Set(offsets)).sort((a, b) => a - b);
+};
+
+type RecommendedCourse = {
+  _id: mongoose.Types.ObjectId;
+  courseName: string;
+  courseDate: Date;
+  location: string;
+  hours: number;
+};
+
+const upcomingCourses = () =>
+  Course.find({
+    isPublished: true,
+    isDeleted: { $ne: true },
+    courseDate: { $gt: new Date() },
+    availableSeats: { $gt: 0 },
+  })
+    .select("courseName courseDate location hours")
+    .sort({ courseDate: 1 })
+    .limit(RECOMMENDED_COURSE_COUNT)
+    .lean<RecommendedCourse[]>();
+
+type FirmDigestEntry = {
+  traderId: mongoose.Types.ObjectId;
+  name: string;
+  endDate: Date;
+  offsetDays: number;
+};
+
+const courseLines = (courses: RecommendedCourse[]) =>
+  courses
+    .map(
+      (course) =>
+        `- ${course.courseName}, ${dayjs(course.courseDate).format(
+          "D MMM YYYY"
+        )}, ${course.location} (${course.hours} hours)`
+    )
+    .join("\n");
+
+/**
+ * Record a reminder before sending it. Returns false when another run
+ * already sent (or is sending) the same reminder.
+ */
+const claimReminder = async (reminder: {
+  traderId: mongoose.Types.ObjectId;
+  endDate: Date;
+  offsetDays: number;
+  recipient: "trader" | "firm";
+  email: string;
+  courseIds: mongoose.Types.ObjectId[];
+}) => {
+  try {
+    return await LicenceReminder.create(reminder);
+  } catch (error) {
+    if ((error as { code?: number }).code === DUPLICATE_KEY) return null;
+    throw error;
+  }
+};
+
+/**
+ * Email traders whose licence ends within one of the reminder offsets, and
+ * the firm contacts that asked to be copied. Only the nearest offset is
+ * sent, so a licence found 5 days before expiry gets the 7-day reminder
+ * and not all three.
+ */
+export const sendLicenceReminders = async () => {
+  if (running) return null;
+  running = true;
+
+  try {
+    const offsets = getReminderOffsets();
+    const now = new Date();
+    const traders = await Trader.find({
+      isDeleted: { $ne: true },
+      endDate: {
+        $gt: now,
+        $lte: new Date(now.getTime() + offsets[offsets.length - 1] * DAY_MS),
+      },
+    }).select("userId name email company endDate");
+
+    // Suspended, deactivated and erased accounts are not reminded
+    const activeUserIds = new Set(
+      (
+        await User.find({
+          _id: { $in: traders.map((t) => t.userId) },
+          status: "Active",
+        }).select("_id")
+      ).map((u) => u._id.toString())
+    );
+
+    const courses = await upcomingCourses();
+    const courseIds = courses.map((c) => c._id);
+    const contacts = await FirmContact.find({
+      company: { $in: Array.from(new Set(traders.map((t) => t.company))) },
+      receiveLicenceReminders: true,
+    });
+
+    const firmDigests = new Map<string, FirmDigestEntry[]>();
+    let traderCount = 0;
+
+    for (const trader of traders) {
+      if (!activeUserIds.has(trader.userId.toString()) || !trader.endDate) {
+        continue;
+      }
+      const daysRemaining = Math.ceil(
+        (trader.endDate.getTime() - now.getTime()) / DAY_MS
+      );
+      const offsetDays = offsets.find((offset) => daysRemaining <= offset);
+      if (offsetDays === undefined) continue;
+
+      const claimed = await claimReminder({
+        traderId: trader._id,
+        endDate: trader.endDate,
+        offsetDays,
+        recipient: "trader",
+        email: trader.email,
+        courseIds,
+      });
+      if (claimed) {
+        try {
+          await transporter.sendMail({
+            from: MAIL_FROM,
+            to: trader.email,
+            subject: `Your B-Trade licence expires in ${daysRemaining} days`,
+            text: `Hello ${
+              trader.name
+            },\n\nYour trading licence expires on ${dayjs(
+              trader.endDate
+            ).format(
+              "D MMM YYYY"
+            )}. Complete a training course before then to renew it.${
+              courses.length
+                ? `\n\nUpcoming courses:\n${courseLines(courses)}`
+                : ""
+            }\n\nSign in to B-Trade to enroll.`,
+          });
+          traderCount++;
+        } catch (mailError) {
+          // Let the next run try again
+          await LicenceReminder.deleteOne({ _id: claimed._id });
+          console.error("Error sending licence reminder:", mailError);
+        }
+      }
+
+      if (contacts.some((c) => c.company === trader.company)) {
+        const digest = firmDigests.get(trader.company) ?? [];
+        digest.push({
+          traderId: trader._id,
+          name: trader.name,
+          endDate: trader.endDate,
+          offsetDays,
+        });
+        firmDigests.set(trader.company, digest);
+      }
+    }
+
+    // One email per firm listing every trader newly due
+    let firmCount = 0;
+    for (const contact of contacts) {
+      // Each trader is claimed separately so one already listed in an earlier
+      // digest is not repeated
+      const claims = [];
+      for (const entry of firmDigests.get(contact.company) ?? []) {
+        const claimed = await claimReminder({
+          traderId: entry.traderId,
+          endDate: entry.endDate,
+          offsetDays: entry.offsetDays,
+          recipient: "firm",
+          email: contact.email,
+          courseIds,
+        });
+        if (claimed) claims.push({ claimed, entry });
+      }
+      if (claims.length === 0) continue;
+
+      try {
+        await transporter.sendMail({
+          from: MAIL_FROM,
+          to: contact.email,
+          subject: `B-Trade licences expiring at ${contact.company}`,
+          text: `Hello ${
+            contact.name || contact.company
+          },\n\nThe following traders' licences expire soon:\n${claims
+            .map(
+              ({ entry }) =>
+                `- ${entry.name}: ${dayjs(entry.endDate).format("D MMM YYYY")}`
+            )
+            .join("\n")}${
+            courses.length
+              ? `\n\nUpcoming courses:\n${courseLines(courses)}`
+              : ""
+          }`,
+        });
+        firmCount++;
+      } catch (mailError) {
+        await LicenceReminder.deleteMany({
+          _id: { $in: claims.map(({ claimed }) => claimed._id) },
+        });
+        console.error("Error sending firm licence reminder:", mailError);
+      }
+    }
+
+    return { traders: traderCount, firms: firmCount };
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Send licence reminders once a day
+ */
+export const startLicenceReminderJob = () => {
+  const run = () =>
+    sendLicenceReminders().catch((error) =>
+      console.error("Error sending licence reminders:", error)
+    );
+  run();
+  setInterval(run, LICENCE_REMINDER_CHECK_HOURS * 60 * 60 * 1000);
+};
@@ -0,0 +1,51 @@
+import mongoose from "mongoose";
+
+// Person at a firm who is copied on the licence reminders of its traders
+const firmContactSchema = new mongoose.Schema(
+  {
+    // Must match Trader.company exactly
+    company: { type: String, required: true, unique: true },
+    name: { type: String, default: "" },
+    email: { type: String, required: true },
+    receiveLicenceReminders: { type: Boolean, default: true },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+export const FirmContact = mongoose.model("firmcontacts", firmContactSchema);
+
+// One row per reminder sent. The unique index stops a reminder for the same
+// licence end date, offset and recipient from going out twice.
+const licenceReminderSchema = new mongoose.Schema(
+  {
+    traderId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "traders",
+      required: true,
+    },
+    // Renewing the licence moves endDate, which starts a new reminder cycle
+    endDate: { type: Date, required: true },
+    offsetDays: { type: Number, required: true },
+    recipient: { type: String, enum: ["trader", "firm"], required: true },
+    email: { type: String, required: true },
+    courseIds: [{ type: mongoose.Schema.Types.ObjectId, ref: "courses" }],
+    sentAt: { type: Date, default: Date.now },
+  },
+  { timestamps: true }
+);
+
+licenceReminderSchema.index(
+  { traderId: 1, endDate: 1, offsetDays: 1, recipient: 1 },
+  { unique: true }
+);
+licenceReminderSchema.index({ sentAt: -1 });
+
+export const LicenceReminder = mongoose.model(
+  "licencereminders",
+  licenceReminderSchema
+);
@@ -0,0 +1,416 @@
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { FirmContact, LicenceReminder } from "./model";
+import { getReminderOffsets, sendLicenceReminders } from "./job";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const licenceReminder = express.Router();
+
+/**
+ * @swagger
+ * /licence-reminder:
+ *   get:
+ *     summary: Licence expiry reminders that were sent, newest first
+ *     description: Reminders go out daily at LICENCE_REMINDER_DAYS (default 90,30,7) days before a trader's licence ends, to the trader and to their firm contact if one is set up. Each reminder is sent once per licence end date.
+ *     tags: [Licence Reminder]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: traderId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Reminders retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     offsets:
+ *                       type: array
+ *                       items:
+ *                         type: integer
+ *                       example: [7, 30, 90]
+ *                     reminders:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           traderId:
+ *                             type: object
+ *                           endDate:
+ *                             type: string
+ *                             format: date-time
+ *                           offsetDays:
+ *                             type: integer
+ *                           recipient:
+ *                             type: string
+ *                             enum: [trader, firm]
+ *                           email:
+ *                             type: string
+ *                           sentAt:
+ *                             type: string
+ *                             format: date-time
+ *                     total:
+ *                       type: integer
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+licenceReminder.get(
+  "/",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const page = Math.max(1, parseInt(String(req.query.page)) || 1);
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt(String(req.query.limit)) || 20)
+      );
+
+      const filter: Record<string, unknown> = {};
+      const { traderId } = req.query;
+      if (typeof traderId === "string" && mongoose.isValidObjectId(traderId)) {
+        filter.traderId = traderId;
+      }
+
+      const [reminders, total] = await Promise.all([
+        LicenceReminder.find(filter)
+          .populate("traderId", "name company")
+          .populate("courseIds", "courseName courseDate")
+          .sort({ sentAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        LicenceReminder.countDocuments(filter),
+      ]);
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Licence reminders retrieved successfully",
+        data: { offsets: getReminderOffsets(), reminders, total, page, limit },
+      });
+    } catch (error) {
+      console.error("Error retrieving licence reminders:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /licence-reminder/run:
+ *   post:
+ *     summary: Send due licence reminders now
+ *     description: Reminders that were already sent are skipped.
+ *     tags: [Licence Reminder]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Reminders sent; returns how many traders and firms were emailed
+ *       409:
+ *         description: Reminders are already being sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-21-0003'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Licence reminders are already being sent'
+ *       500:
+ *         description: Internal server error
+ */
+licenceReminder.post(
+  "/run",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await sendLicenceReminders();
+      if (!result) {
+        return res.status(409).json({
+          code: "Error-21-0003",
+          status: "Error",
+          message: "Licence reminders are already being sent",
+        });
+      }
+
+      res.status(201).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Licence reminders sent",
+        data: result,
+      });
+    } catch (error) {
+      console.error("Error sending licence reminders:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /licence-reminder/firm-contacts:
+ *   get:
+ *     summary: Firm contacts copied on their traders' licence reminders
+ *     tags: [Licence Reminder]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Firm contacts retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+licenceReminder.get(
+  "/firm-contacts",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const contacts = await FirmContact.find()
+        .populate("updatedBy", "email")
+        .sort({ company: 1 });
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Firm contacts retrieved successfully",
+        data: contacts,
+      });
+    } catch (error) {
+      console.error("Error retrieving firm contacts:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /licence-reminder/firm-contacts/{company}:
+ *   put:
+ *     summary: Set the contact of a firm, or stop copying them on reminders
+ *     description: The company name must match the traders' company exactly. The firm contact gets one email per run listing all of its traders with a reminder due.
+ *     tags: [Licence Reminder]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: company
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: 'Compliance desk'
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: 'compliance@example.com'
+ *               receiveLicenceReminders:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: Firm contact saved
+ *       400:
+ *         description: Missing or invalid email
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-21-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'A valid email is required'
+ *       500:
+ *         description: Internal server error
+ */
+licenceReminder.put(
+  "/firm-contacts/:company",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { name, email, receiveLicenceReminders } = req.body;
+      if (
+        !email ||
+        typeof email !== "string" ||
+        !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
+      ) {
+        return res.status(400).json({
+          code: "Error-21-0001",
+          status: "Error",
+          message: "A valid email is required",
+        });
+      }
+      if (
+        receiveLicenceReminders !== undefined &&
+        typeof receiveLicenceReminders !== "boolean"
+      ) {
+        return res.status(400).json({
+          code: "Error-21-0001",
+          status: "Error",
+          message: "receiveLicenceReminders must be true or false",
+        });
+      }
+
+      const contact = await FirmContact.findOneAndUpdate(
+        { company: req.params.company },
+        {
+          $set: {
+            name: typeof name === "string" ? name : "",
+            email: email.trim().toLowerCase(),
+            receiveLicenceReminders: receiveLicenceReminders ?? true,
+            updatedBy: req.user!.userId,
+          },
+        },
+        { upsert: true, new: true }
+      );
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Firm contact saved",
+        data: contact,
+      });
+    } catch (error) {
+      console.error("Error saving firm contact:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /licence-reminder/firm-contacts/{company}:
+ *   delete:
+ *     summary: Remove the contact of a firm
+ *     tags: [Licence Reminder]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: company
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Firm contact removed
+ *       404:
+ *         description: No contact for this company
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-21-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Firm contact not found'
+ *       500:
+ *         description: Internal server error
+ */
+licenceReminder.delete(
+  "/firm-contacts/:company",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await FirmContact.deleteOne({
+        company: req.params.company,
+      });
+      if (result.deletedCount === 0) {
+        return res.status(404).json({
+          code: "Error-21-0002",
+          status: "Error",
+          message: "Firm contact not found",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Firm contact removed",
+      });
+    } catch (error) {
+      console.error("Error removing firm contact:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import axios from "axios";
+import jwt from "jsonwebtoken";
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcProviderConfig {
+  slug: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string | null;
+  redirectUri: string;
+  scopes: string;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  email: string;
+  name?: string;
+}
+
+// Discovery documents and keys change rarely; re-read them every hour
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const discoveryCache = new Map<
+  string,
+  { document: DiscoveryDocument; fetchedAt: number }
+>();
+
+type Jwk = crypto.JsonWebKey & { kid?: string; use?: string };
+
+// Signing keys per issuer, on the same schedule as discovery
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+// Plain http is only accepted for a local (mock) identity provider
+const assertSecureUrl = (url: string) => {
+  const { protocol, hostname } = new URL(url);
+  const isLocal = hostname === "localhost" || hostname === "127.0.0.1";
+  if (protocol !== "https:" && !(protocol === "http:" && isLocal)) {
+    throw new Error(`OIDC endpoint must use https: ${url}`);
+  }
+};
+
+const discover = async (issuer: string): Promise<DiscoveryDocument> => {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+    return cached.document;
+  }
+
+  assertSecureUrl(issuer);
+  const { data } = await axios.get<DiscoveryDocument>(
+    `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`
+  );
+  if (data.issuer !== issuer) {
+    throw new Error("OIDC discovery issuer does not match configuration");
+  }
+  // Keys from a plain-http URL could be swapped by anyone on the path
+  assertSecureUrl(data.authorization_endpoint);
+  assertSecureUrl(data.token_endpoint);
+  assertSecureUrl(data.jwks_uri);
+
+  discoveryCache.set(issuer, { document: data, fetchedAt: Date.now() });
+  return data;
+};
+
+const base64Url = (buffer: Buffer) => buffer.toString("base64url");
+
+/**
+ * Build the provider's authorization URL for a new login attempt. The
+ * returned state, nonce and PKCE verifier must be stored until the callback.
+ */
+export const buildAuthorizationRequest = async (
+  provider: OidcProviderConfig
+) => {
+  const discovery = await discover(provider.issuer);
+
+  const state = base64Url(crypto.randomBytes(32));
+  const nonce = base64Url(crypto.randomBytes(32));
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(
+    crypto.createHash("sha256").update(codeVerifier).digest()
+  );
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  });
+
+  return {
+    authorizationUrl: `${discovery.authorization_endpoint}?${params}`,
+    state,
+    nonce,
+    codeVerifier,
+  };
+};
+
+const fetchJwks = async (issuer: string, jwksUri: string) => {
+  const { data } = await axios.get<{ keys: Jwk[] }>(jwksUri);
+  const keys = Array.isArray(data.keys) ? data.keys : [];
+  jwksCache.set(issuer, { keys, fetchedAt: Date.now() });
+  return keys;
+};
+
+const findSigningKey = (keys: Jwk[], kid?: string) =>
+  keys.find(
+    (key) => (!kid || key.kid === kid) && (!key.use || key.use === "sig")
+  );
+
+const getSigningKey = async (issuer: string, jwksUri: string, kid?: string) => {
+  const cached = jwksCache.get(issuer);
+  let jwk =
+    cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL_MS
+      ? findSigningKey(cached.keys, kid)
+      : undefined;
+  // An unknown kid usually means the provider rotated its keys
+  if (!jwk) {
+    jwk = findSigningKey(await fetchJwks(issuer, jwksUri), kid);
+  }
+  if (!jwk) {
+    throw new Error("No matching OIDC signing key");
+  }
+  return crypto.createPublicKey({ key: jwk, format: "jwk" });
+};
+
+/**
+ * Exchange an authorization code for tokens and return the verified identity
+ * from the ID token. Throws when the token is invalid or the email address
+ * has not been verified by the provider.
+ */
+export const exchangeCode = async (
+  provider: OidcProviderConfig,
+  code: string,
+  codeVerifier: string,
+  nonce: string
+): Promise<OidcIdentity> => {
+  const discovery = await discover(provider.issuer);
+
+  const { data } = await axios.post<{ id_token?: string }>(
+    discovery.token_endpoint,
+    new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: provider.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret || "",
+      code_verifier: codeVerifier,
+    }).toString(),
+    { headers: { "Content-Type": "application/x-www-form-urlencoded" } }
+  );
+  if (!data.id_token) {
+    throw new Error("Token response did not include an id_token");
+  }
+
+  const decoded = jwt.decode(data.id_token, { complete: true });
+  if (!decoded) {
+    throw new Error("Malformed id_token");
+  }
+
+  const key = await getSigningKey(
+    provider.issuer,
+    discovery.jwks_uri,
+    decoded.header.kid
+  );
+  const claims = jwt.verify(data.id_token, key, {
+    algorithms: ["RS256", "ES256"],
+    issuer: discovery.issuer,
+    audience: provider.clientId,
+  }) as jwt.JwtPayload;
+
+  if (claims.nonce !== nonce) {
+    throw new Error("id_token nonce mismatch");
+  }
+  if (!claims.sub || typeof claims.email !== "string") {
+    throw new Error("id_token is missing sub or email");
+  }
+  if (claims.email_verified !== true && claims.email_verified !== "true") {
+    throw new Error("Email address is not verified by the identity provider");
+  }
+
+  return {
+    subject: claims.sub,
+    email: claims.email,
+    name: typeof claims.name === "string" ? claims.name : undefined,
+  };
+};
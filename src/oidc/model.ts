@@ -0,0 +1,50 @@
+import mongoose from "mongoose";
+
+// A firm's corporate identity provider. The slug is used in the login URLs.
+const oidcProviderSchema = new mongoose.Schema(
+  {
+    slug: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    // Discovery is read from `${issuer}/.well-known/openid-configuration`
+    issuer: { type: String, required: true },
+    clientId: { type: String, required: true },
+    clientSecret: { type: String, select: false },
+    // Frontend page that receives `code` and `state` and posts them back
+    redirectUri: { type: String, required: true },
+    scopes: { type: String, default: "openid email profile" },
+    // Email domains the provider may sign in; at least one is required
+    allowedDomains: {
+      type: [String],
+      validate: {
+        validator: (domains: string[]) => domains.length > 0,
+        message: "allowedDomains must name at least one domain",
+      },
+    },
+    // Company given to traders created on their first sign-in
+    defaultCompany: { type: String, required: true },
+    autoProvision: { type: Boolean, default: true },
+    enabled: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+export const OidcProvider = mongoose.model("oidcproviders", oidcProviderSchema);
+
+// One pending authorization request; consumed by the callback
+const oidcLoginStateSchema = new mongoose.Schema(
+  {
+    state: { type: String, required: true, unique: true },
+    provider: { type: String, required: true },
+    codeVerifier: { type: String, required: true },
+    nonce: { type: String, required: true },
+    // Set when a signed-in user is linking the provider to their account
+    linkUserId: { type: mongoose.Schema.Types.ObjectId, default: null },
+    expiresAt: { type: Date, required: true, index: { expireAfterSeconds: 0 } },
+  },
+  { timestamps: true }
+);
+
+export const OidcLoginState = mongoose.model(
+  "oidcloginstates",
+  oidcLoginStateSchema
+);
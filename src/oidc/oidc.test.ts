@@ -0,0 +1,457 @@
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import axios from "axios";
+import express from "express";
+import jwt from "jsonwebtoken";
+import { buildAuthorizationRequest, exchangeCode } from "./client";
+import { oidc } from "./route";
+
+// In-memory stand-ins for the MongoDB models used by the routes
+interface MockLoginState {
+  state: string;
+  provider: string;
+  linkUserId?: string | null;
+}
+
+const mockLoginStates = new Map<string, MockLoginState>();
+const mockProvider = {
+  slug: "mock",
+  name: "Mock IdP",
+  issuer: "",
+  clientId: "btrade",
+  clientSecret: "client-secret",
+  redirectUri: "http://localhost:3000/sso/callback",
+  scopes: "openid email profile",
+  allowedDomains: ["btrade.example"],
+  defaultCompany: "Mock Securities",
+  autoProvision: true,
+  enabled: true,
+};
+
+jest.mock("./model", () => ({
+  OidcProvider: {
+    findOne: jest.fn(() => ({
+      select: () => Promise.resolve(mockProvider),
+    })),
+  },
+  OidcLoginState: {
+    create: jest.fn(async (doc: MockLoginState) => {
+      mockLoginStates.set(doc.state, doc);
+      return doc;
+    }),
+    findOneAndDelete: jest.fn(
+      async (filter: { state: string; provider: string }) => {
+        const doc = mockLoginStates.get(filter.state);
+        if (!doc || doc.provider !== filter.provider) return null;
+        mockLoginStates.delete(filter.state);
+        return doc;
+      }
+    ),
+  },
+}));
+
+// Local accounts by email; empty unless a test adds one
+const mockUsers = new Map<string, Record<string, any>>();
+
+const mockQuery = (value: unknown) =>
+  Object.assign(Promise.resolve(value), {
+    collation: () => Promise.resolve(value),
+  });
+
+jest.mock("../user/model", () => ({
+  User: {
+    findOne: jest.fn((filter: Record<string, any>) =>
+      mockQuery(
+        filter.email
+          ? mockUsers.get(filter.email.toLowerCase()) ?? null
+          : Array.from(mockUsers.values()).find((user) =>
+              user.externalIdentities.some(
+                (linked: { provider: string; subject: string }) =>
+                  linked.provider ===
+                    filter.externalIdentities.$elemMatch.provider &&
+                  linked.subject ===
+                    filter.externalIdentities.$elemMatch.subject
+              )
+            ) ?? null
+      )
+    ),
+    findById: jest.fn(
+      async (id: string) =>
+        Array.from(mockUsers.values()).find((user) => user._id === id) ?? null
+    ),
+    create: jest.fn(async (doc: { email: string }) => ({
+      ...doc,
+      _id: "64b000000000000000000001",
+      status: "Active",
+    })),
+  },
+}));
+
+jest.mock("../trader/model", () => ({
+  Trader: { create: jest.fn(async () => ({})) },
+}));
+
+jest.mock("../auth/login", () => ({
+  completeLogin: jest.fn(async () => ({ token: "access-token" })),
+  recordLoginEvent: jest.fn(async () => undefined),
+  signMfaChallenge: jest.fn(() => "challenge-token"),
+}));
+
+// The signed-in user is named by a test header
+jest.mock("../../middleware/middleware", () => ({
+  verifyToken: (
+    req: { headers: Record<string, string>; user?: object },
+    _res: unknown,
+    next: () => void
+  ) => {
+    req.user = { userId: req.headers["x-test-user"] };
+    next();
+  },
+  requirePermission: () => (_req: unknown, _res: unknown, next: () => void) =>
+    next(),
+}));
+
+jest.mock("bcrypt", () => ({ hash: async () => "unusable-hash" }));
+
+interface IssuedCode {
+  issuer: string;
+  clientId: string;
+  codeChallenge: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * A minimal OpenID Connect provider on 127.0.0.1. Every first path segment
+ * is its own issuer ("/<tenant>"), so tests get separate key caches.
+ */
+const startMockIdp = async () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  const kid = "mock-key-1";
+  const codes = new Map<string, IssuedCode>();
+  const jwksRequests = new Map<string, number>();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+    const [, tenant, ...rest] = url.pathname.split("/");
+    const path = `/${rest.join("/")}`;
+    const issuer = `http://${req.headers.host}/${tenant}`;
+    const send = (status: number, body: object) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (path === "/.well-known/openid-configuration") {
+      return send(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri:
+          tenant === "insecure-jwks"
+            ? "http://idp.example.com/jwks"
+            : `${issuer}/jwks`,
+      });
+    }
+
+    if (path === "/jwks") {
+      jwksRequests.set(tenant, (jwksRequests.get(tenant) || 0) + 1);
+      return send(200, {
+        keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig" }],
+      });
+    }
+
+    if (path === "/token" && req.method === "POST") {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const params = new URLSearchParams(body);
+        const issued = codes.get(params.get("code") || "");
+        // Codes are single use at the provider too
+        codes.delete(params.get("code") || "");
+        if (!issued || issued.clientId !== params.get("client_id")) {
+          return send(400, { error: "invalid_grant" });
+        }
+
+        const challenge = crypto
+          .createHash("sha256")
+          .update(params.get("code_verifier") || "")
+          .digest("base64url");
+        if (challenge !== issued.codeChallenge) {
+          return send(400, { error: "invalid_grant" });
+        }
+
+        const idToken = jwt.sign(issued.claims, privateKey, {
+          algorithm: "RS256",
+          keyid: kid,
+          issuer: issued.issuer,
+          audience: issued.clientId,
+          expiresIn: 300,
+        });
+        send(200, { id_token: idToken, token_type: "Bearer" });
+      });
+      return;
+    }
+
+    send(404, { error: "not_found" });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer: (tenant: string) => `${base}/${tenant}`,
+    jwksRequests: (tenant: string) => jwksRequests.get(tenant) || 0,
+    /**
+     * What the user's browser does at the provider: sign in and come back
+     * with a code. `claims` override the ID token contents.
+     */
+    authorize: (authorizationUrl: string, claims: object = {}) => {
+      const url = new URL(authorizationUrl);
+      const code = crypto.randomBytes(16).toString("hex");
+      codes.set(code, {
+        issuer: url.href.slice(0, url.href.indexOf("/authorize")),
+        clientId: url.searchParams.get("client_id") || "",
+        codeChallenge: url.searchParams.get("code_challenge") || "",
+        claims: {
+          sub: "idp-user-1",
+          email: "trader@btrade.example",
+          email_verified: true,
+          name: "Mock Trader",
+          nonce: url.searchParams.get("nonce"),
+          ...claims,
+        },
+      });
+      return { code, state: url.searchParams.get("state") || "" };
+    },
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+let idp: Awaited<ReturnType<typeof startMockIdp>>;
+
+beforeAll(async () => {
+  idp = await startMockIdp();
+  mockProvider.issuer = idp.issuer("route");
+});
+
+afterAll(async () => {
+  await idp.close();
+});
+
+const providerFor = (tenant: string) => ({
+  ...mockProvider,
+  issuer: idp.issuer(tenant),
+});
+
+describe("OIDC client", () => {
+  it("sends an S256 PKCE challenge and exchanges the code with its verifier", async () => {
+    const provider = providerFor("client");
+    const request = await buildAuthorizationRequest(provider);
+
+    const url = new URL(request.authorizationUrl);
+    expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(url.searchParams.get("code_challenge")).toBe(
+      crypto
+        .createHash("sha256")
+        .update(request.codeVerifier)
+        .digest("base64url")
+    );
+
+    const { code } = idp.authorize(request.authorizationUrl);
+    const identity = await exchangeCode(
+      provider,
+      code,
+      request.codeVerifier,
+      request.nonce
+    );
+    expect(identity).toEqual({
+      subject: "idp-user-1",
+      email: "trader@btrade.example",
+      name: "Mock Trader",
+    });
+  });
+
+  it("fails when the PKCE verifier does not match the challenge", async () => {
+    const provider = providerFor("client");
+    const request = await buildAuthorizationRequest(provider);
+    const { code } = idp.authorize(request.authorizationUrl);
+
+    await expect(
+      exchangeCode(provider, code, "not-the-verifier", request.nonce)
+    ).rejects.toThrow();
+  });
+
+  it("rejects an id_token whose nonce does not match the login request", async () => {
+    const provider = providerFor("client");
+    const request = await buildAuthorizationRequest(provider);
+    const { code } = idp.authorize(request.authorizationUrl, {
+      nonce: "replayed-nonce",
+    });
+
+    await expect(
+      exchangeCode(provider, code, request.codeVerifier, request.nonce)
+    ).rejects.toThrow("nonce mismatch");
+  });
+
+  it("rejects an email the provider has not verified", async () => {
+    const provider = providerFor("client");
+    const request = await buildAuthorizationRequest(provider);
+    const { code } = idp.authorize(request.authorizationUrl, {
+      email_verified: false,
+    });
+
+    await expect(
+      exchangeCode(provider, code, request.codeVerifier, request.nonce)
+    ).rejects.toThrow("not verified");
+  });
+
+  it("fetches the provider's keys once and reuses them", async () => {
+    const provider = providerFor("jwks-cache");
+
+    for (let i = 0; i < 2; i++) {
+      const request = await buildAuthorizationRequest(provider);
+      const { code } = idp.authorize(request.authorizationUrl);
+      await exchangeCode(provider, code, request.codeVerifier, request.nonce);
+    }
+
+    expect(idp.jwksRequests("jwks-cache")).toBe(1);
+  });
+
+  it("refuses a discovery document with a plain-http jwks_uri", async () => {
+    await expect(
+      buildAuthorizationRequest(providerFor("insecure-jwks"))
+    ).rejects.toThrow("must use https");
+  });
+});
+
+describe("OIDC routes", () => {
+  let server: http.Server;
+  let api: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use("/auth/oidc", oidc);
+    server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    api = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const signIn = async (claims: object = {}) => {
+    const { data } = await axios.get(`${api}/auth/oidc/mock/authorize`);
+    return idp.authorize(data.data.authorizationUrl, claims);
+  };
+
+  const callback = (body: { code: string; state: string }) =>
+    axios.post(`${api}/auth/oidc/mock/callback`, body, {
+      validateStatus: () => true,
+    });
+
+  it("logs in once per state", async () => {
+    const returned = await signIn();
+
+    const first = await callback(returned);
+    expect(first.status).toBe(200);
+    expect(first.data.code).toBe("Success-01-0002");
+
+    const replay = await callback(returned);
+    expect(replay.status).toBe(400);
+    expect(replay.data.code).toBe("Error-10-0003");
+  });
+
+  it("refuses an unverified email", async () => {
+    const response = await callback(await signIn({ email_verified: false }));
+
+    expect(response.status).toBe(401);
+    expect(response.data.code).toBe("Error-10-0004");
+  });
+
+  it("only admits emails from the allowed domains", async () => {
+    const outsider = await callback(
+      await signIn({ email: "someone@other.example" })
+    );
+    expect(outsider.status).toBe(403);
+    expect(outsider.data.code).toBe("Error-10-0005");
+
+    const member = await callback(await signIn());
+    expect(member.status).toBe(200);
+  });
+
+  it("admits no one through a provider without allowed domains", async () => {
+    mockProvider.allowedDomains = [];
+    try {
+      const response = await callback(await signIn());
+      expect(response.status).toBe(403);
+      expect(response.data.code).toBe("Error-10-0005");
+    } finally {
+      mockProvider.allowedDomains = ["btrade.example"];
+    }
+  });
+
+  describe("with an existing local account", () => {
+    const admin = {
+      _id: "64b000000000000000000002",
+      email: "Admin@BTrade.example",
+      status: "Active",
+      emailVerified: false,
+      externalIdentities: [] as { provider: string; subject: string }[],
+      save: jest.fn(async () => undefined),
+    };
+
+    beforeEach(() => {
+      admin.externalIdentities = [];
+      admin.emailVerified = false;
+      mockUsers.set(admin.email.toLowerCase(), admin);
+    });
+
+    afterEach(() => {
+      mockUsers.clear();
+    });
+
+    it("does not link the account by email alone", async () => {
+      const response = await callback(
+        await signIn({ sub: "attacker", email: "admin@btrade.example" })
+      );
+
+      expect(response.status).toBe(409);
+      expect(response.data.code).toBe("Error-10-0010");
+      expect(admin.externalIdentities).toEqual([]);
+      expect(admin.emailVerified).toBe(false);
+    });
+
+    it("links the provider from a signed-in session", async () => {
+      const { data } = await axios.post(
+        `${api}/auth/oidc/mock/link`,
+        {},
+        { headers: { "x-test-user": admin._id } }
+      );
+      const returned = idp.authorize(data.data.authorizationUrl, {
+        sub: "admin-at-idp",
+        email: "admin@btrade.example",
+      });
+
+      const linked = await callback(returned);
+      expect(linked.status).toBe(200);
+      expect(linked.data.code).toBe("Success-10-0002");
+      expect(admin.externalIdentities).toEqual([
+        { provider: "mock", subject: "admin-at-idp" },
+      ]);
+      expect(admin.emailVerified).toBe(true);
+
+      const login = await callback(
+        await signIn({ sub: "admin-at-idp", email: "admin@btrade.example" })
+      );
+      expect(login.status).toBe(200);
+      expect(login.data.code).toBe("Success-01-0002");
+    });
+  });
+});
@@ -0,0 +1,780 @@
+import express, { Request, Response } from "express";
+import bcrypt from "bcrypt";
+import crypto from "crypto";
+import { OidcLoginState, OidcProvider } from "./model";
+import { buildAuthorizationRequest, exchangeCode } from "./client";
+import { User } from "../user/model";
+import { Trader } from "../trader/model";
+import {
+  completeLogin,
+  recordLoginEvent,
+  signMfaChallenge,
+} from "../auth/login";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const oidc = express.Router();
+
+// Define ResponseObject interface
+interface ResponseObject {
+  code: string;
+  status: string;
+  data?: object;
+  message?: string;
+}
+
+// Time the user has to finish signing in at the identity provider
+const OIDC_STATE_TTL_MINUTES = 10;
+
+// Fields an administrator may set on a provider
+const PROVIDER_FIELDS = [
+  "name",
+  "issuer",
+  "clientId",
+  "clientSecret",
+  "redirectUri",
+  "scopes",
+  "allowedDomains",
+  "defaultCompany",
+  "autoProvision",
+  "enabled",
+] as const;
+
+const findEnabledProvider = (slug: string) =>
+  OidcProvider.findOne({ slug, enabled: true }).select("+clientSecret");
+
+const emailDomain = (email: string) =>
+  email.substring(email.lastIndexOf("@") + 1).toLowerCase();
+
+// A provider must be limited to the firm's own email domains
+const isDomainList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((domain) => typeof domain === "string" && domain.trim() !== "");
+
+/**
+ * Store a pending authorization request and return the provider URL. A
+ * `linkUserId` makes the callback link the identity instead of logging in.
+ */
+const startAuthorization = async (
+  provider: Parameters<typeof buildAuthorizationRequest>[0] & { slug: string },
+  linkUserId: string | null = null
+) => {
+  const { authorizationUrl, state, nonce, codeVerifier } =
+    await buildAuthorizationRequest(provider);
+
+  await OidcLoginState.create({
+    state,
+    provider: provider.slug,
+    codeVerifier,
+    nonce,
+    linkUserId,
+    expiresAt: new Date(Date.now() + OIDC_STATE_TTL_MINUTES * 60 * 1000),
+  });
+
+  return authorizationUrl;
+};
+
+/**
+ * Finish a /link request: attach the provider identity to the account that
+ * started it, which proved who it is by being signed in
+ */
+const linkIdentity = async (
+  res: Response,
+  providerSlug: string,
+  identity: { subject: string; email: string },
+  userId: string,
+  linkedUserId: string | undefined
+) => {
+  if (linkedUserId && linkedUserId !== userId) {
+    const response: ResponseObject = {
+      code: "Error-10-0007",
+      status: "Error",
+      message: "This identity is already linked to another account",
+    };
+    return res.status(409).json(response);
+  }
+
+  const user = await User.findById(userId);
+  if (!user || user.status !== "Active") {
+    const response: ResponseObject = {
+      code: "Error-10-0006",
+      status: "Error",
+      message: "The account that started linking is not available",
+    };
+    return res.status(403).json(response);
+  }
+
+  if (!linkedUserId) {
+    const otherIdentity = user.externalIdentities.find(
+      (linked) => linked.provider === providerSlug
+    );
+    if (otherIdentity) {
+      const response: ResponseObject = {
+        code: "Error-10-0007",
+        status: "Error",
+        message:
+          "This account is already linked to another identity at this provider",
+      };
+      return res.status(409).json(response);
+    }
+
+    user.externalIdentities.push({
+      provider: providerSlug,
+      subject: identity.subject,
+    });
+    // The provider has verified the address the account already uses
+    if (
+      !user.emailVerified &&
+      user.email.toLowerCase() === identity.email.toLowerCase()
+    ) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+  }
+
+  const response: ResponseObject = {
+    code: "Success-10-0002",
+    status: "Success",
+    message: "Identity provider linked",
+  };
+  return res.status(200).json(response);
+};
+
+/**
+ * @swagger
+ * /auth/oidc/providers:
+ *   get:
+ *     summary: List the identity providers users can sign in with
+ *     tags: [Single Sign-On]
+ *     responses:
+ *       200:
+ *         description: Providers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       slug:
+ *                         type: string
+ *                         example: 'example-securities'
+ *                       name:
+ *                         type: string
+ *                         example: 'Example Securities'
+ *       500:
+ *         description: Internal server error
+ */
+oidc.get("/providers", async (req: Request, res: Response) => {
+  try {
+    const providers = await OidcProvider.find({ enabled: true })
+      .select("slug name -_id")
+      .sort({ name: 1 });
+
+    const response: ResponseObject = {
+      code: "Success-01-0001",
+      status: "Success",
+      message: "Providers retrieved successfully",
+      data: providers,
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error retrieving OIDC providers:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /auth/oidc/providers:
+ *   post:
+ *     summary: Register a corporate OpenID Connect provider
+ *     tags: [Single Sign-On]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - slug
+ *               - name
+ *               - issuer
+ *               - clientId
+ *               - redirectUri
+ *               - defaultCompany
+ *               - allowedDomains
+ *             properties:
+ *               slug:
+ *                 type: string
+ *                 example: 'example-securities'
+ *               name:
+ *                 type: string
+ *                 example: 'Example Securities'
+ *               issuer:
+ *                 type: string
+ *                 example: 'https://login.example.com'
+ *               clientId:
+ *                 type: string
+ *               clientSecret:
+ *                 type: string
+ *               redirectUri:
+ *                 type: string
+ *                 example: 'http://localhost:3000/sso/callback'
+ *               scopes:
+ *                 type: string
+ *                 example: 'openid email profile'
+ *               allowedDomains:
+ *                 type: array
+ *                 description: Email domains that may sign in; at least one
+ *                 items:
+ *                   type: string
+ *                 example: ['example.com']
+ *               defaultCompany:
+ *                 type: string
+ *                 example: 'Example Securities Co., Ltd.'
+ *               autoProvision:
+ *                 type: boolean
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Provider created
+ *       400:
+ *         description: Missing or invalid fields
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-10-0008'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'slug, name, issuer, clientId, redirectUri, defaultCompany and allowedDomains are required'
+ *       409:
+ *         description: A provider with this slug already exists
+ *       500:
+ *         description: Internal server error
+ */
+oidc.post(
+  "/providers",
+  verifyToken,
+  requirePermission("sso:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { slug, name, issuer, clientId, redirectUri, defaultCompany } =
+        req.body;
+
+      if (
+        !slug ||
+        typeof slug !== "string" ||
+        !/^[a-z0-9][a-z0-9-]*$/.test(slug) ||
+        !name ||
+        !issuer ||
+        !clientId ||
+        !redirectUri ||
+        !defaultCompany ||
+        !isDomainList(req.body.allowedDomains)
+      ) {
+        return res.status(400).json({
+          code: "Error-10-0008",
+          status: "Error",
+          message:
+            "slug, name, issuer, clientId, redirectUri, defaultCompany and allowedDomains are required",
+        });
+      }
+
+      const existingProvider = await OidcProvider.findOne({ slug });
+      if (existingProvider) {
+        return res.status(409).json({
+          code: "Error-10-0009",
+          status: "Error",
+          message: "A provider with this slug already exists",
+        });
+      }
+
+      const fields: Record<string, unknown> = { slug };
+      for (const field of PROVIDER_FIELDS) {
+        if (req.body[field] !== undefined) {
+          fields[field] = req.body[field];
+        }
+      }
+      const provider = await OidcProvider.create(fields);
+
+      res.status(201).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Provider created",
+        data: { ...provider.toObject(), clientSecret: undefined },
+      });
+    } catch (error) {
+      console.error("Error creating OIDC provider:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/oidc/providers/{slug}:
+ *   put:
+ *     summary: Update or disable a corporate OpenID Connect provider
+ *     tags: [Single Sign-On]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *               allowedDomains:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Provider updated
+ *       400:
+ *         description: allowedDomains is empty or invalid
+ *       404:
+ *         description: Provider not found
+ *       500:
+ *         description: Internal server error
+ */
+oidc.put(
+  "/providers/:slug",
+  verifyToken,
+  requirePermission("sso:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const provider = await OidcProvider.findOne({ slug: req.params.slug });
+      if (!provider) {
+        return res.status(404).json({
+          code: "Error-10-0001",
+          status: "Error",
+          message: "Identity provider not found",
+        });
+      }
+
+      for (const field of PROVIDER_FIELDS) {
+        if (req.body[field] !== undefined) {
+          provider.set(field, req.body[field]);
+        }
+      }
+      // Also catches providers saved before a domain list was required
+      if (!isDomainList(provider.allowedDomains)) {
+        return res.status(400).json({
+          code: "Error-10-0008",
+          status: "Error",
+          message: "allowedDomains must name at least one domain",
+        });
+      }
+      await provider.save();
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Provider updated",
+        data: { ...provider.toObject(), clientSecret: undefined },
+      });
+    } catch (error) {
+      console.error("Error updating OIDC provider:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/oidc/{provider}/authorize:
+ *   get:
+ *     summary: Start a single sign-on login
+ *     description: Returns the identity provider URL to redirect the browser to. The login uses the authorization code flow with PKCE; the provider redirects back to the configured redirectUri with `code` and `state`.
+ *     tags: [Single Sign-On]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Authorization URL created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-10-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     authorizationUrl:
+ *                       type: string
+ *       404:
+ *         description: Provider not found or disabled
+ *       500:
+ *         description: Internal server error
+ */
+oidc.get("/:provider/authorize", async (req: Request, res: Response) => {
+  try {
+    const provider = await findEnabledProvider(req.params.provider);
+    if (!provider) {
+      const response: ResponseObject = {
+        code: "Error-10-0001",
+        status: "Error",
+        message: "Identity provider not found",
+      };
+      return res.status(404).json(response);
+    }
+
+    const response: ResponseObject = {
+      code: "Success-10-0001",
+      status: "Success",
+      message: "Redirect the user to the identity provider",
+      data: { authorizationUrl: await startAuthorization(provider) },
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error starting OIDC login:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /auth/oidc/{provider}/link:
+ *   post:
+ *     summary: Start linking an identity provider to the signed-in account
+ *     description: Returns the identity provider URL like /authorize. When the provider redirects back, posting `code` and `state` to the callback links the identity to the signed-in account instead of logging in. This is the only way an existing account gets linked.
+ *     tags: [Single Sign-On]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Authorization URL created
+ *       401:
+ *         description: Not signed in
+ *       404:
+ *         description: Provider not found or disabled
+ *       500:
+ *         description: Internal server error
+ */
+oidc.post(
+  "/:provider/link",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    try {
+      const provider = await findEnabledProvider(req.params.provider);
+      if (!provider) {
+        const response: ResponseObject = {
+          code: "Error-10-0001",
+          status: "Error",
+          message: "Identity provider not found",
+        };
+        return res.status(404).json(response);
+      }
+
+      const response: ResponseObject = {
+        code: "Success-10-0001",
+        status: "Success",
+        message: "Redirect the user to the identity provider",
+        data: {
+          authorizationUrl: await startAuthorization(
+            provider,
+            req.user!.userId
+          ),
+        },
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      console.error("Error starting OIDC link:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/oidc/{provider}/callback:
+ *   post:
+ *     summary: Finish a single sign-on login
+ *     description: Exchanges the code returned by the identity provider. The user is matched by linked identity only; an email that belongs to an unlinked account is refused, and the account owner must link the provider through /link while signed in. Unknown users are provisioned with a trader profile to complete. The response is the same as /login, including the two-factor challenge. For a request started with /link, the identity is linked to that account instead.
+ *     tags: [Single Sign-On]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - state
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful, two-factor authentication required, or identity linked
+ *       400:
+ *         description: Missing fields or unknown/expired state
+ *       401:
+ *         description: The identity provider response could not be verified
+ *       403:
+ *         description: Email domain not allowed, no account, or account inactive
+ *       409:
+ *         description: An unlinked account uses this email, or the identity or account is already linked
+ *       500:
+ *         description: Internal server error
+ */
+oidc.post("/:provider/callback", async (req: Request, res: Response) => {
+  const { code, state } = req.body;
+
+  if (!code || !state || typeof state !== "string") {
+    const response: ResponseObject = {
+      code: "Error-10-0002",
+      status: "Error",
+      message: "code and state are required",
+    };
+    return res.status(400).json(response);
+  }
+
+  try {
+    const provider = await findEnabledProvider(req.params.provider);
+    if (!provider) {
+      const response: ResponseObject = {
+        code: "Error-10-0001",
+        status: "Error",
+        message: "Identity provider not found",
+      };
+      return res.status(404).json(response);
+    }
+
+    // Each state may be used once
+    const loginState = await OidcLoginState.findOneAndDelete({
+      state,
+      provider: provider.slug,
+      expiresAt: { $gt: new Date() },
+    });
+    if (!loginState) {
+      const response: ResponseObject = {
+        code: "Error-10-0003",
+        status: "Error",
+        message: "Login request is invalid or has expired. Please start again.",
+      };
+      return res.status(400).json(response);
+    }
+
+    let identity;
+    try {
+      identity = await exchangeCode(
+        provider,
+        String(code),
+        loginState.codeVerifier,
+        loginState.nonce
+      );
+    } catch (error) {
+      console.error("OIDC code exchange failed:", error);
+      const response: ResponseObject = {
+        code: "Error-10-0004",
+        status: "Error",
+        message: "Sign-in with the identity provider could not be verified",
+      };
+      return res.status(401).json(response);
+    }
+
+    // An empty list (providers saved before it was required) admits no one
+    if (
+      !provider.allowedDomains
+        .map((domain) => domain.toLowerCase())
+        .includes(emailDomain(identity.email))
+    ) {
+      const response: ResponseObject = {
+        code: "Error-10-0005",
+        status: "Error",
+        message: "This email domain may not sign in with this provider",
+      };
+      return res.status(403).json(response);
+    }
+
+    // Match an already linked identity only; an email match is never
+    // enough to take over an existing account
+    let user = await User.findOne({
+      externalIdentities: {
+        $elemMatch: { provider: provider.slug, subject: identity.subject },
+      },
+    });
+
+    if (loginState.linkUserId) {
+      return linkIdentity(
+        res,
+        provider.slug,
+        identity,
+        loginState.linkUserId.toString(),
+        user?._id.toString()
+      );
+    }
+
+    if (!user) {
+      const existingUser = await User.findOne({
+        email: identity.email,
+      }).collation({ locale: "en", strength: 2 });
+      if (existingUser) {
+        const response: ResponseObject = {
+          code: "Error-10-0010",
+          status: "Error",
+          message:
+            "An account already uses this email. Sign in to it and link this provider from your account.",
+        };
+        return res.status(409).json(response);
+      }
+
+      if (!provider.autoProvision) {
+        const response: ResponseObject = {
+          code: "Error-10-0006",
+          status: "Error",
+          message: "No B-Trade account exists for this email address",
+        };
+        return res.status(403).json(response);
+      }
+
+      // Password login stays unusable until the user resets a password
+      const unusablePassword = await bcrypt.hash(
+        crypto.randomBytes(32).toString("hex"),
+        10
+      );
+      user = await User.create({
+        email: identity.email,
+        password: unusablePassword,
+        role: "user",
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+        externalIdentities: [
+          { provider: provider.slug, subject: identity.subject },
+        ],
+      });
+
+      // Trader profile without idCard/phone; the user completes it later
+      await Trader.create({
+        userId: user._id,
+        company: provider.defaultCompany,
+        name: identity.name || identity.email.split("@")[0],
+        email: identity.email,
+        profileIncomplete: true,
+      });
+    }
+
+    // Check user status
+    if (user.status !== "Active") {
+      await recordLoginEvent(req, {
+        userId: user._id,
+        email: user.email,
+        method: "oidc",
+        success: false,
+        failureReason: "inactive",
+      });
+      const response: ResponseObject = {
+        code: "Error-02-0005",
+        status: "Error",
+        message: `Account is ${user.status}. Please contact support.`,
+      };
+      return res.status(403).json(response);
+    }
+
+    // The provider replaces the password, not the second factor
+    if (user.twoFactor?.enabled) {
+      const response: ResponseObject = {
+        code: "Success-01-0009",
+        status: "Success",
+        message: "Two-factor authentication required",
+        data: {
+          mfaRequired: true,
+          challengeToken: signMfaChallenge(user._id.toString()),
+        },
+      };
+      return res.status(200).json(response);
+    }
+
+    const response: ResponseObject = {
+      code: "Success-01-0002",
+      status: "Success",
+      message: "Login successful",
+      data: await completeLogin(user, req, { method: "oidc" }),
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error during OIDC login:", error);
+    const response: ResponseObject = {
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    };
+    res.status(500).json(response);
+  }
+});
@@ -0,0 +1,250 @@
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Trader } from "../trader/model";
+import { getLicenceStatus } from "../trader/licence";
+import { verifyApiKey } from "../../middleware/middleware";
+
+export const partner = express.Router();
+
+// Fields partner firms may see; trainings are only returned with training:read
+const PARTNER_TRADER_FIELDS =
+  "name email company idCard startDate endDate createdAt";
+
+const maskIdCard = (idCard?: string | null) =>
+  idCard ? `${idCard.substring(0, 4)}XXXXXXX` : null;
+
+const toPartnerTrader = (trader: {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  email: string;
+  company: string;
+  idCard?: string | null;
+  startDate?: Date | null;
+  endDate?: Date | null;
+}) => ({
+  id: trader._id,
+  name: trader.name,
+  email: trader.email,
+  company: trader.company,
+  idCard: maskIdCard(trader.idCard),
+  licence: getLicenceStatus(trader),
+});
+
+// Look up a trader only inside the key's company; other companies get a 404
+const findScopedTrader = (req: Request, select: string) => {
+  const { traderId } = req.params;
+  if (!mongoose.isValidObjectId(traderId)) {
+    return Promise.resolve(null);
+  }
+  return Trader.findOne({
+    _id: traderId,
+    company: req.apiKey!.company,
+    isDeleted: { $ne: true },
+  }).select(select);
+};
+
+/**
+ * @swagger
+ * components:
+ *   securitySchemes:
+ *     apiKeyAuth:
+ *       type: apiKey
+ *       in: header
+ *       name: X-Api-Key
+ *       description: Partner API key issued by a B-Trade administrator
+ *
+ * /partner/traders:
+ *   get:
+ *     summary: List the traders of the API key's company with licence status
+ *     tags: [Partner]
+ *     security:
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Traders retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Traders retrieved successfully'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       401:
+ *         description: Missing, invalid, expired or revoked API key
+ *       403:
+ *         description: API key lacks the trader:read scope
+ *       500:
+ *         description: Internal server error
+ */
+partner.get(
+  "/traders",
+  verifyApiKey("trader:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const traders = await Trader.find({
+        company: req.apiKey!.company,
+        isDeleted: { $ne: true },
+      })
+        .select(PARTNER_TRADER_FIELDS)
+        .sort({ name: 1 });
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Traders retrieved successfully",
+        data: traders.map(toPartnerTrader),
+      });
+    } catch (error) {
+      console.error("Error retrieving partner traders:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error while fetching traders",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /partner/traders/{traderId}:
+ *   get:
+ *     summary: Licence status of one trader of the API key's company
+ *     tags: [Partner]
+ *     security:
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: traderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Trader retrieved successfully
+ *       404:
+ *         description: Trader not found in this company
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-01-0007'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Trader not found'
+ *       500:
+ *         description: Internal server error
+ */
+partner.get(
+  "/traders/:traderId",
+  verifyApiKey("trader:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const trader = await findScopedTrader(req, PARTNER_TRADER_FIELDS);
+      if (!trader) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "Trader not found",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Trader retrieved successfully",
+        data: toPartnerTrader(trader),
+      });
+    } catch (error) {
+      console.error("Error retrieving partner trader:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /partner/traders/{traderId}/trainings:
+ *   get:
+ *     summary: Training history of one trader of the API key's company
+ *     tags: [Partner]
+ *     security:
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: traderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Trainings retrieved successfully
+ *       403:
+ *         description: API key lacks the training:read scope
+ *       404:
+ *         description: Trader not found in this company
+ *       500:
+ *         description: Internal server error
+ */
+partner.get(
+  "/traders/:traderId/trainings",
+  verifyApiKey("training:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const trader = await findScopedTrader(req, "name trainings");
+      if (!trader) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "Trader not found",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Trainings retrieved successfully",
+        data: {
+          traderId: trader._id,
+          name: trader.name,
+          trainings: trader.trainings.map((training) => ({
+            courseId: training.courseId,
+            courseName: training.courseName,
+            location: training.location,
+            hours: training.hours,
+            date: training.date,
+            isCompleted: training.isCompleted,
+          })),
+        },
+      });
+    } catch (error) {
+      console.error("Error retrieving partner trainings:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
@@ -16,6 +16,19 @@ export interface IPayment extends Document {
   updatedAt: Date;
 }
 
+// Checkout metadata kept on payments. Anything else the client sends may
+// hold personal data, so it is dropped.
+export const PAYMENT_METADATA_KEYS = ["userId", "courseId"] as const;
+
+export const pickPaymentMetadata = (
+  metadata?: Record<string, unknown> | null
+): Record<string, string> =>
+  Object.fromEntries(
+    PAYMENT_METADATA_KEYS.filter((key) => metadata?.[key] != null).map(
+      (key) => [key, String(metadata![key])]
+    )
+  );
+
 const PaymentSchema: Schema = new Schema({
   sessionId: { type: String, required: true, unique: true },
   userId: { type: String, required: true, index: true },
@@ -2,8 +2,8 @@ import express, { Request, Response } from "express";
 import dayjs from "dayjs";
 
 import mongoose, { PipelineStage } from "mongoose";
-import { Payment } from "./model";
-import { checkAdminRole, verifyToken } from "../../middleware/middleware";
+import { Payment, pickPaymentMetadata } from "./model";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
 
 export const payment = express.Router();
 const stripe = require("stripe")(process.env.STRIPE_API_KEY);
@@ -31,6 +31,7 @@ payment.post(
     }
 
     try {
+      const checkoutMetadata = pickPaymentMetadata(metadata);
       const session = await stripe.checkout.sessions.create({
         ui_mode: "embedded",
         line_items: [
@@ -41,7 +42,7 @@ payment.post(
         ],
         mode: "payment",
         return_url: `${FRONTEND_URL}/success?session_id={CHECKOUT_SESSION_ID}`,
-        metadata,
+        metadata: checkoutMetadata,
       });
 
       // Create initial payment record in database
@@ -52,7 +53,7 @@ payment.post(
         amount: 0, // Will be updated when payment completes
         currency: "THB",
         status: "created",
-        metadata: metadata,
+        metadata: checkoutMetadata,
         createdAt: new Date(),
       });
 
@@ -170,7 +171,7 @@ payment.post(
             customerName: customerName,
             paymentMethod: session.payment_method_types[0],
             paymentIntent: session.payment_intent,
-            metadata: session.metadata,
+            metadata: pickPaymentMetadata(session.metadata),
             createdAt: new Date(session.created * 1000), // Convert from Unix timestamp
           });
 
@@ -221,7 +222,7 @@ payment.post(
 payment.get(
   "/dashboard",
   verifyToken,
-  checkAdminRole,
+  requirePermission("payment:read"),
   async (req: Request, res: Response) => {
     try {
       // Safely parse days parameter
@@ -0,0 +1,96 @@
+import { Request } from "express";
+import { checkUpdatePolicy } from "./ownership";
+
+// Roles by name, as ensureDefaultRoles creates them
+const mockRoles: Record<string, string[]> = {
+  admin: ["user:manage", "role:manage"],
+  user: [],
+};
+
+jest.mock("../../middleware/middleware", () => ({
+  hasPermission: jest.fn(
+    async (user: { role: string } | undefined, permission: string) =>
+      !!user && (mockRoles[user.role] ?? []).includes(permission)
+  ),
+}));
+
+const TRADER_ID = "64b000000000000000000001";
+const ADMIN_ID = "64b000000000000000000002";
+
+const as = (userId: string, role: string) =>
+  ({ user: { userId, role, sessionId: "session" } } as Request);
+
+describe("checkUpdatePolicy", () => {
+  it("lets traders change their own name and phone number", async () => {
+    expect(
+      await checkUpdatePolicy(as(TRADER_ID, "user"), "trader", TRADER_ID, [
+        "name",
+        "phoneNumber",
+      ])
+    ).toBeNull();
+  });
+
+  it("keeps traders from moving themselves to another company", async () => {
+    expect(
+      await checkUpdatePolicy(as(TRADER_ID, "user"), "trader", TRADER_ID, [
+        "company",
+      ])
+    ).toMatchObject({
+      httpStatus: 403,
+      code: "Error-08-0002",
+      rejectedFields: ["company"],
+    });
+  });
+
+  it("sends trader email changes through the user record", async () => {
+    expect(
+      await checkUpdatePolicy(as(TRADER_ID, "user"), "trader", TRADER_ID, [
+        "email",
+      ])
+    ).toMatchObject({
+      httpStatus: 400,
+      code: "Error-08-0003",
+      rejectedFields: ["email"],
+    });
+    expect(
+      await checkUpdatePolicy(as(TRADER_ID, "user"), "user", TRADER_ID, [
+        "email",
+      ])
+    ).toBeNull();
+  });
+
+  it("refuses changes to another user's record", async () => {
+    expect(
+      await checkUpdatePolicy(
+        as(TRADER_ID, "user"),
+        "trader",
+        "64b000000000000000000003",
+        ["name"]
+      )
+    ).toMatchObject({ httpStatus: 403, code: "Error-08-0001" });
+  });
+
+  it("lets managers change any trader's company and licence dates", async () => {
+    expect(
+      await checkUpdatePolicy(as(ADMIN_ID, "admin"), "trader", TRADER_ID, [
+        "company",
+        "startDate",
+        "endDate",
+      ])
+    ).toBeNull();
+  });
+
+  it("keeps roles and status out of user updates, even for managers", async () => {
+    expect(
+      await checkUpdatePolicy(as(ADMIN_ID, "admin"), "user", TRADER_ID, [
+        "email",
+        "role",
+        "status",
+      ])
+    ).toMatchObject({
+      httpStatus: 400,
+      code: "Error-08-0003",
+      rejectedFields: ["role", "status"],
+    });
+  });
+});
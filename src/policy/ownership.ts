@@ -0,0 +1,96 @@
+import { Request } from "express";
+import { hasPermission } from "../../middleware/middleware";
+
+export type PolicyResource = "user" | "trader";
+
+interface FieldPolicy {
+  owner: Record<PolicyResource, string[]>;
+  manager: Record<PolicyResource, string[]>;
+}
+
+// Fields each kind of caller may change through user.put / trader.put.
+// "owner" applies to anyone editing their own record; "manager" applies to
+// roles holding user:manage, who may edit any record.
+export const FIELD_POLICY: FieldPolicy = {
+  owner: {
+    // Email changes go through user.put, which re-verifies the address and
+    // keeps the trader record in step. The company decides which firm's
+    // API keys, reminders and imports cover a trader, so only managers set it.
+    user: ["email"],
+    trader: ["name", "phoneNumber"],
+  },
+  manager: {
+    // Status changes go through /user/{userId}/suspend and /reactivate so
+    // they are recorded in statusHistory. Roles only change through
+    // /role/assign, which requires role:manage.
+    user: ["email"],
+    trader: [
+      "name",
+      "company",
+      "phoneNumber",
+      "idCard",
+      "startDate",
+      "endDate",
+      "trainings",
+      "isDeleted",
+    ],
+  },
+};
+
+export interface PolicyViolation {
+  httpStatus: number;
+  code: string;
+  message: string;
+  rejectedFields?: string[];
+}
+
+/**
+ * Decide whether the caller may apply `fields` to a record owned by
+ * `ownerUserId`. Returns null when allowed, otherwise the error to send.
+ */
+export const checkUpdatePolicy = async (
+  req: Request,
+  resource: PolicyResource,
+  ownerUserId: string,
+  fields: string[]
+): Promise<PolicyViolation | null> => {
+  const isOwner = !!req.user && req.user.userId === ownerUserId;
+  const isManager = await hasPermission(req.user, "user:manage");
+
+  if (!isOwner && !isManager) {
+    return {
+      httpStatus: 403,
+      code: "Error-08-0001",
+      message: `You can only update your own ${resource} record`,
+    };
+  }
+
+  const allowed = isManager
+    ? FIELD_POLICY.manager[resource]
+    : FIELD_POLICY.owner[resource];
+  const rejected = fields.filter((field) => !allowed.includes(field));
+
+  if (rejected.length === 0) {
+    return null;
+  }
+
+  // Name the fields that an administrator could have changed separately
+  const adminOnly = rejected.filter((field) =>
+    FIELD_POLICY.manager[resource].includes(field)
+  );
+  if (adminOnly.length === rejected.length) {
+    return {
+      httpStatus: 403,
+      code: "Error-08-0002",
+      message: `Only administrators can change: ${adminOnly.join(", ")}`,
+      rejectedFields: adminOnly,
+    };
+  }
+
+  return {
+    httpStatus: 400,
+    code: "Error-08-0003",
+    message: `These fields cannot be changed: ${rejected.join(", ")}`,
+    rejectedFields: rejected,
+  };
+};
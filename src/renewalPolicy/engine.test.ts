@@ -0,0 +1,228 @@
+import mongoose from "mongoose";
+import { evaluateRenewal, isQualifyingCourse } from "./engine";
+import { DEFAULT_RENEWAL_POLICY, RenewalPolicyDocument } from "./model";
+
+let mockPolicy: Record<string, unknown> | null;
+// Courses by id, with the tags trainings do not copy
+const mockCourses = new Map<string, { hours: number; courseTags: string[] }>();
+
+jest.mock("./model", () => ({
+  ...jest.requireActual("./model"),
+  RenewalPolicy: {
+    findOne: jest.fn(() => ({ sort: async () => mockPolicy })),
+  },
+}));
+
+jest.mock("../course/model", () => ({
+  Course: {
+    find: jest.fn((filter: { _id: { $in: mongoose.Types.ObjectId[] } }) => ({
+      select: async () =>
+        filter._id.$in
+          .filter((id) => mockCourses.has(id.toString()))
+          .map((id) => ({ _id: id, ...mockCourses.get(id.toString()) })),
+    })),
+  },
+}));
+
+// 10:00 on 15 January 2025 in Bangkok
+const NOW = new Date("2025-01-15T03:00:00Z");
+
+const policy = (overrides: Record<string, unknown> = {}) => ({
+  version: 3,
+  ...DEFAULT_RENEWAL_POLICY,
+  ...overrides,
+});
+
+const course = (hours: number, courseTags: string[] = []) => {
+  const id = new mongoose.Types.ObjectId();
+  mockCourses.set(id.toString(), { hours, courseTags });
+  return { id, hours, courseTags };
+};
+
+// The approved course as evaluateRenewal expects it: already completed
+const completed = (taken: ReturnType<typeof course>, date: Date = NOW) => ({
+  courseId: taken.id,
+  hours: taken.hours,
+  date,
+  isCompleted: true,
+});
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+  mockPolicy = policy();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  mockCourses.clear();
+});
+
+describe("isQualifyingCourse", () => {
+  const rules = (minHours: number, courseTags: string[]) =>
+    ({ qualifyingCourse: { minHours, courseTags } } as RenewalPolicyDocument);
+
+  it("accepts any course when the policy sets no tags or hours", () => {
+    expect(isQualifyingCourse(rules(0, []), { hours: 1 })).toBe(true);
+  });
+
+  it("refuses courses shorter than the minimum", () => {
+    expect(isQualifyingCourse(rules(6, []), { hours: 5 })).toBe(false);
+    expect(isQualifyingCourse(rules(6, []), { hours: 6 })).toBe(true);
+  });
+
+  it("needs one of the policy's tags when it names any", () => {
+    const tagged = rules(0, ["ethics", "derivatives"]);
+
+    expect(
+      isQualifyingCourse(tagged, { hours: 6, courseTags: ["derivatives"] })
+    ).toBe(true);
+    expect(
+      isQualifyingCourse(tagged, { hours: 6, courseTags: ["marketing"] })
+    ).toBe(false);
+    expect(isQualifyingCourse(tagged, { hours: 6 })).toBe(false);
+  });
+});
+
+describe("evaluateRenewal", () => {
+  it("starts the licence on the first approved course", async () => {
+    const taken = course(6);
+
+    expect(
+      await evaluateRenewal({ trainings: [completed(taken)] }, taken)
+    ).toEqual({
+      policyVersion: 3,
+      extended: true,
+      reason: null,
+      qualifyingHours: 6,
+      previousEndDate: null,
+      startDate: NOW,
+      endDate: new Date("2027-01-15T03:00:00Z"),
+    });
+  });
+
+  it("extends a valid licence from its current end date", async () => {
+    mockPolicy = policy({ maxTermMonths: null });
+    const taken = course(6);
+
+    const decision = await evaluateRenewal(
+      {
+        startDate: new Date("2023-06-01T00:00:00Z"),
+        endDate: new Date("2025-06-01T00:00:00Z"),
+        trainings: [completed(taken)],
+      },
+      taken
+    );
+
+    expect(decision.extended).toBe(true);
+    expect(decision.endDate).toEqual(new Date("2026-06-01T00:00:00Z"));
+  });
+
+  it("counts a lapsed licence's extension from the approval", async () => {
+    mockPolicy = policy({ maxTermMonths: null, lapsedExtensionMonths: 6 });
+    const taken = course(6);
+
+    const decision = await evaluateRenewal(
+      {
+        startDate: new Date("2022-06-01T00:00:00Z"),
+        endDate: new Date("2024-06-01T00:00:00Z"),
+        trainings: [completed(taken)],
+      },
+      taken
+    );
+
+    expect(decision.extended).toBe(true);
+    expect(decision.endDate).toEqual(new Date("2025-07-15T03:00:00Z"));
+  });
+
+  it("caps the end date at the maximum term", async () => {
+    const taken = course(6);
+    const startDate = new Date("2024-01-01T00:00:00Z");
+
+    const decision = await evaluateRenewal(
+      {
+        startDate,
+        endDate: new Date("2025-06-01T00:00:00Z"),
+        trainings: [completed(taken)],
+      },
+      taken
+    );
+
+    expect(decision.extended).toBe(true);
+    expect(decision.endDate).toEqual(new Date("2026-01-01T00:00:00Z"));
+  });
+
+  it("leaves a licence at the maximum term unchanged", async () => {
+    const taken = course(6);
+    const endDate = new Date("2026-01-01T00:00:00Z");
+
+    expect(
+      await evaluateRenewal(
+        {
+          startDate: new Date("2024-01-01T00:00:00Z"),
+          endDate,
+          trainings: [completed(taken)],
+        },
+        taken
+      )
+    ).toMatchObject({
+      extended: false,
+      reason: "Licence has already reached the maximum term",
+      endDate,
+    });
+  });
+
+  it("waits until the minimum hours are completed within the period", async () => {
+    mockPolicy = policy({
+      maxTermMonths: null,
+      minimumHours: { hours: 10, periodMonths: 12 },
+    });
+    const earlier = course(7);
+    const tooOld = course(7);
+    const taken = course(3);
+    const trader = {
+      startDate: new Date("2023-06-01T00:00:00Z"),
+      endDate: new Date("2025-06-01T00:00:00Z"),
+      trainings: [
+        completed(tooOld, new Date("2023-12-01T00:00:00Z")),
+        completed(taken),
+      ],
+    };
+
+    expect(await evaluateRenewal(trader, taken)).toMatchObject({
+      extended: false,
+      qualifyingHours: 3,
+      reason: "10 qualifying hours are required within 12 months; 3 completed",
+    });
+
+    trader.trainings.push(completed(earlier, new Date("2024-09-01T00:00:00Z")));
+    expect(await evaluateRenewal(trader, taken)).toMatchObject({
+      extended: true,
+      qualifyingHours: 10,
+    });
+  });
+
+  it("does not extend for a course that does not qualify", async () => {
+    mockPolicy = policy({
+      qualifyingCourse: { minHours: 0, courseTags: ["ethics"] },
+    });
+    const taken = course(6, ["marketing"]);
+
+    expect(
+      await evaluateRenewal({ trainings: [completed(taken)] }, taken)
+    ).toMatchObject({
+      extended: false,
+      reason: "Course does not qualify for licence renewal",
+      startDate: null,
+      endDate: null,
+    });
+  });
+
+  it("fails when no policy is in force", async () => {
+    mockPolicy = null;
+    const taken = course(6);
+
+    await expect(
+      evaluateRenewal({ trainings: [completed(taken)] }, taken)
+    ).rejects.toThrow("No licence renewal policy is in force");
+  });
+});
@@ -0,0 +1,169 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+import mongoose from "mongoose";
+import { RenewalPolicy, RenewalPolicyDocument } from "./model";
+import { Course } from "../course/model";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const RENEWAL_TIMEZONE = "Asia/Bangkok";
+
+interface CourseRequirements {
+  hours: number;
+  courseTags?: string[];
+}
+
+interface CompletedTraining {
+  courseId?: mongoose.Types.ObjectId | null;
+  hours: number;
+  date: Date;
+  isCompleted?: boolean | null;
+}
+
+export interface RenewalDecision {
+  policyVersion: number;
+  extended: boolean;
+  // Why the licence was not extended
+  reason: string | null;
+  qualifyingHours: number;
+  previousEndDate: Date | null;
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+/**
+ * The policy version in force at `at`
+ */
+export const getPolicyInForce = (at: Date = new Date()) =>
+  RenewalPolicy.findOne({ effectiveFrom: { $lte: at } }).sort({
+    effectiveFrom: -1,
+    version: -1,
+  });
+
+export const isQualifyingCourse = (
+  policy: RenewalPolicyDocument,
+  course: CourseRequirements
+) => {
+  const { minHours, courseTags } = policy.qualifyingCourse ?? {};
+  if (course.hours < (minHours ?? 0)) return false;
+  if (!courseTags || courseTags.length === 0) return true;
+  return (course.courseTags ?? []).some((tag) => courseTags.includes(tag));
+};
+
+/**
+ * Hours of completed qualifying courses taken inside the policy's period,
+ * counting the course being approved
+ */
+const qualifyingHoursInPeriod = async (
+  policy: RenewalPolicyDocument,
+  trainings: CompletedTraining[],
+  now: dayjs.Dayjs
+) => {
+  const periodStart = now.subtract(
+    policy.minimumHours?.periodMonths ?? 0,
+    "month"
+  );
+  const inPeriod = trainings.filter(
+    (training) =>
+      training.isCompleted &&
+      training.courseId &&
+      !dayjs(training.date).isBefore(periodStart)
+  );
+
+  // Trainings keep a copy of the hours but not the tags
+  const courses = await Course.find({
+    _id: { $in: inPeriod.map((training) => training.courseId) },
+  }).select("hours courseTags");
+  const byId = new Map(courses.map((c) => [c._id.toString(), c]));
+
+  return inPeriod.reduce((total, training) => {
+    const course = byId.get(training.courseId!.toString());
+    return course &&
+      isQualifyingCourse(policy, {
+        hours: training.hours,
+        courseTags: course.courseTags,
+      })
+      ? total + training.hours
+      : total;
+  }, 0);
+};
+
+/**
+ * Work out the licence dates after an approved course under the policy in
+ * force now. `trainings` must already include the approved course marked
+ * as completed. Nothing is saved.
+ */
+export const evaluateRenewal = async (
+  trader: {
+    startDate?: Date | null;
+    endDate?: Date | null;
+    trainings: CompletedTraining[];
+  },
+  course: CourseRequirements
+): Promise<RenewalDecision> => {
+  const now = dayjs().tz(RENEWAL_TIMEZONE);
+  const policy = await getPolicyInForce(now.toDate());
+  if (!policy) {
+    throw new Error("No licence renewal policy is in force");
+  }
+
+  const previousEndDate = trader.endDate ?? null;
+  const qualifyingHours = await qualifyingHoursInPeriod(
+    policy,
+    trader.trainings,
+    now
+  );
+  const unchanged = (reason: string): RenewalDecision => ({
+    policyVersion: policy.version,
+    extended: false,
+    reason,
+    qualifyingHours,
+    previousEndDate,
+    startDate: trader.startDate ?? null,
+    endDate: previousEndDate,
+  });
+
+  if (!isQualifyingCourse(policy, course)) {
+    return unchanged("Course does not qualify for licence renewal");
+  }
+  const requiredHours = policy.minimumHours?.hours ?? 0;
+  if (qualifyingHours < requiredHours) {
+    return unchanged(
+      `${requiredHours} qualifying hours are required within ${policy.minimumHours?.periodMonths} months; ${qualifyingHours} completed`
+    );
+  }
+
+  let startDate: dayjs.Dayjs;
+  let endDate: dayjs.Dayjs;
+  if (!trader.startDate) {
+    // First approval starts the licence
+    startDate = now;
+    endDate = now.add(policy.initialTermMonths, "month");
+  } else {
+    startDate = dayjs(trader.startDate);
+    const currentEndDate = trader.endDate ? dayjs(trader.endDate) : startDate;
+    endDate = currentEndDate.isBefore(now)
+      ? now.add(policy.lapsedExtensionMonths, "month")
+      : currentEndDate.add(policy.extensionMonths, "month");
+  }
+
+  if (policy.maxTermMonths !== null && policy.maxTermMonths !== undefined) {
+    const cap = startDate.add(policy.maxTermMonths, "month");
+    if (endDate.isAfter(cap)) endDate = cap;
+  }
+  if (previousEndDate && !endDate.isAfter(previousEndDate)) {
+    return unchanged("Licence has already reached the maximum term");
+  }
+
+  return {
+    policyVersion: policy.version,
+    extended: true,
+    reason: null,
+    qualifyingHours,
+    previousEndDate,
+    startDate: startDate.toDate(),
+    endDate: endDate.toDate(),
+  };
+};
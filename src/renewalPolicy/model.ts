@@ -0,0 +1,76 @@
+import mongoose from "mongoose";
+
+// The rules that applied before policies were configurable. Inserted as
+// version 1 on first start.
+export const DEFAULT_RENEWAL_POLICY = {
+  initialTermMonths: 24,
+  extensionMonths: 12,
+  lapsedExtensionMonths: 12,
+  maxTermMonths: 24,
+  minimumHours: { hours: 0, periodMonths: 24 },
+  qualifyingCourse: { minHours: 0, courseTags: [] as string[] },
+};
+
+// One version of the licence renewal rules. Versions are never edited once
+// in force; changing the rules publishes a new version. The version with
+// the latest effectiveFrom that has passed is the one in force.
+const renewalPolicySchema = new mongoose.Schema(
+  {
+    version: { type: Number, required: true, unique: true },
+    effectiveFrom: { type: Date, required: true },
+    // Licence length granted on a trader's first approved course
+    initialTermMonths: { type: Number, required: true },
+    // Added to endDate when the licence is still valid
+    extensionMonths: { type: Number, required: true },
+    // Counted from the approval date when the licence has lapsed
+    lapsedExtensionMonths: { type: Number, required: true },
+    // endDate never passes startDate plus this; null means no cap
+    maxTermMonths: { type: Number, default: null },
+    // Qualifying hours a trader must have completed within the period
+    // before their licence is extended; 0 turns the requirement off
+    minimumHours: {
+      hours: { type: Number, default: 0 },
+      periodMonths: { type: Number, default: 24 },
+    },
+    qualifyingCourse: {
+      minHours: { type: Number, default: 0 },
+      // A course qualifies if it carries any of these tags; empty means any
+      courseTags: [{ type: String }],
+    },
+    notes: { type: String, default: "" },
+    // Null for the built-in version
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+renewalPolicySchema.index({ effectiveFrom: -1, version: -1 });
+
+export const RenewalPolicy = mongoose.model(
+  "renewalpolicies",
+  renewalPolicySchema
+);
+
+export type RenewalPolicyDocument = InstanceType<typeof RenewalPolicy>;
+
+/**
+ * Insert the built-in policy when no version exists yet, so approvals
+ * always have a policy in force
+ */
+export const ensureDefaultRenewalPolicy = async () => {
+  await RenewalPolicy.updateOne(
+    { version: 1 },
+    {
+      $setOnInsert: {
+        ...DEFAULT_RENEWAL_POLICY,
+        effectiveFrom: new Date(0),
+        notes: "Rules in use before renewal policies were configurable",
+      },
+    },
+    { upsert: true }
+  );
+};
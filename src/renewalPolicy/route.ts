@@ -0,0 +1,542 @@
+import express, { Request, Response } from "express";
+import { RenewalPolicy, RenewalPolicyDocument } from "./model";
+import { getPolicyInForce } from "./engine";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const renewalPolicy = express.Router();
+
+// MongoDB duplicate key error, raised when two versions are published at once
+const DUPLICATE_KEY = 11000;
+const MAX_TERM_MONTHS = 120;
+
+const isMonths = (value: unknown): value is number =>
+  Number.isInteger(value) &&
+  (value as number) > 0 &&
+  (value as number) <= MAX_TERM_MONTHS;
+
+const isHours = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Build the next version from the request body. Fields left out keep the
+ * value of `base`. Returns an error message when a field is invalid.
+ */
+const parsePolicy = (
+  body: Record<string, unknown>,
+  base: RenewalPolicyDocument
+) => {
+  const minimumHours = (body.minimumHours ?? {}) as Record<string, unknown>;
+  const qualifyingCourse = (body.qualifyingCourse ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const policy = {
+    initialTermMonths: body.initialTermMonths ?? base.initialTermMonths,
+    extensionMonths: body.extensionMonths ?? base.extensionMonths,
+    lapsedExtensionMonths:
+      body.lapsedExtensionMonths ?? base.lapsedExtensionMonths,
+    maxTermMonths:
+      body.maxTermMonths === undefined
+        ? base.maxTermMonths
+        : body.maxTermMonths,
+    minimumHours: {
+      hours: minimumHours.hours ?? base.minimumHours?.hours ?? 0,
+      periodMonths:
+        minimumHours.periodMonths ?? base.minimumHours?.periodMonths ?? 24,
+    },
+    qualifyingCourse: {
+      minHours: qualifyingCourse.minHours ?? base.qualifyingCourse?.minHours,
+      courseTags:
+        qualifyingCourse.courseTags ?? base.qualifyingCourse?.courseTags ?? [],
+    },
+    notes: body.notes ?? "",
+  };
+
+  for (const field of [
+    "initialTermMonths",
+    "extensionMonths",
+    "lapsedExtensionMonths",
+  ] as const) {
+    if (!isMonths(policy[field])) {
+      return {
+        error: `${field} must be a whole number of months between 1 and ${MAX_TERM_MONTHS}`,
+      };
+    }
+  }
+  if (policy.maxTermMonths !== null && !isMonths(policy.maxTermMonths)) {
+    return {
+      error: `maxTermMonths must be null or a whole number of months between 1 and ${MAX_TERM_MONTHS}`,
+    };
+  }
+  if (!isHours(policy.minimumHours.hours)) {
+    return { error: "minimumHours.hours must be zero or more" };
+  }
+  if (!isMonths(policy.minimumHours.periodMonths)) {
+    return {
+      error: `minimumHours.periodMonths must be between 1 and ${MAX_TERM_MONTHS}`,
+    };
+  }
+  if (!isHours(policy.qualifyingCourse.minHours ?? 0)) {
+    return { error: "qualifyingCourse.minHours must be zero or more" };
+  }
+  const tags = policy.qualifyingCourse.courseTags;
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+    return { error: "qualifyingCourse.courseTags must be a list of tags" };
+  }
+  if (typeof policy.notes !== "string") {
+    return { error: "notes must be text" };
+  }
+
+  return { policy };
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RenewalPolicy:
+ *       type: object
+ *       properties:
+ *         version:
+ *           type: integer
+ *           example: 2
+ *         effectiveFrom:
+ *           type: string
+ *           format: date-time
+ *         initialTermMonths:
+ *           type: integer
+ *           description: Licence length granted on a trader's first approved course
+ *           example: 24
+ *         extensionMonths:
+ *           type: integer
+ *           description: Added to the end date of a licence that is still valid
+ *           example: 12
+ *         lapsedExtensionMonths:
+ *           type: integer
+ *           description: Counted from the approval date when the licence has lapsed
+ *           example: 12
+ *         maxTermMonths:
+ *           type: integer
+ *           nullable: true
+ *           description: The end date never passes the start date plus this; null for no cap
+ *           example: 24
+ *         minimumHours:
+ *           type: object
+ *           description: Qualifying hours needed within the period before a licence is extended
+ *           properties:
+ *             hours:
+ *               type: number
+ *               example: 6
+ *             periodMonths:
+ *               type: integer
+ *               example: 24
+ *         qualifyingCourse:
+ *           type: object
+ *           properties:
+ *             minHours:
+ *               type: number
+ *               example: 3
+ *             courseTags:
+ *               type: array
+ *               description: A course qualifies if it has any of these tags; empty means any course
+ *               items:
+ *                 type: string
+ *         notes:
+ *           type: string
+ *         createdBy:
+ *           type: string
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /renewal-policy:
+ *   get:
+ *     summary: All licence renewal policy versions, newest first
+ *     description: Approving an enrollment applies the version in force at that moment and records its number on the enrollment.
+ *     tags: [Renewal Policy]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Renewal policies retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     inForce:
+ *                       type: integer
+ *                       description: Version applied to approvals right now
+ *                     policies:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/RenewalPolicy'
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+renewalPolicy.get(
+  "/",
+  verifyToken,
+  requirePermission("renewal:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const [policies, inForce] = await Promise.all([
+        RenewalPolicy.find()
+          .populate("createdBy", "email")
+          .sort({ version: -1 }),
+        getPolicyInForce(),
+      ]);
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Renewal policies retrieved successfully",
+        data: { inForce: inForce?.version ?? null, policies },
+      });
+    } catch (error) {
+      console.error("Error retrieving renewal policies:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /renewal-policy/{version}:
+ *   get:
+ *     summary: One renewal policy version
+ *     tags: [Renewal Policy]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Renewal policy retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   $ref: '#/components/schemas/RenewalPolicy'
+ *       404:
+ *         description: Version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-22-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Renewal policy version not found'
+ *       500:
+ *         description: Internal server error
+ */
+renewalPolicy.get(
+  "/:version",
+  verifyToken,
+  requirePermission("renewal:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const version = Number(req.params.version);
+      const policy = Number.isInteger(version)
+        ? await RenewalPolicy.findOne({ version }).populate(
+            "createdBy",
+            "email"
+          )
+        : null;
+      if (!policy) {
+        return res.status(404).json({
+          code: "Error-22-0002",
+          status: "Error",
+          message: "Renewal policy version not found",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Renewal policy retrieved successfully",
+        data: policy,
+      });
+    } catch (error) {
+      console.error("Error retrieving renewal policy:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /renewal-policy:
+ *   post:
+ *     summary: Publish a new version of the renewal policy
+ *     description: Fields that are left out are copied from the latest version. The new version applies to approvals from effectiveFrom onwards (now if omitted). Earlier approvals keep the version they were made under.
+ *     tags: [Renewal Policy]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               effectiveFrom:
+ *                 type: string
+ *                 format: date-time
+ *               initialTermMonths:
+ *                 type: integer
+ *               extensionMonths:
+ *                 type: integer
+ *               lapsedExtensionMonths:
+ *                 type: integer
+ *               maxTermMonths:
+ *                 type: integer
+ *                 nullable: true
+ *               minimumHours:
+ *                 type: object
+ *                 properties:
+ *                   hours:
+ *                     type: number
+ *                   periodMonths:
+ *                     type: integer
+ *               qualifyingCourse:
+ *                 type: object
+ *                 properties:
+ *                   minHours:
+ *                     type: number
+ *                   courseTags:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *               notes:
+ *                 type: string
+ *                 example: 'Regulator notice 2026/14: 6 hours every 2 years'
+ *     responses:
+ *       201:
+ *         description: Renewal policy published
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-22-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   $ref: '#/components/schemas/RenewalPolicy'
+ *       400:
+ *         description: Invalid field or effectiveFrom in the past
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-22-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'extensionMonths must be a whole number of months between 1 and 120'
+ *       409:
+ *         description: Another version was published at the same time
+ *       500:
+ *         description: Internal server error
+ */
+renewalPolicy.post(
+  "/",
+  verifyToken,
+  requirePermission("renewal:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const latest = await RenewalPolicy.findOne().sort({ version: -1 });
+      if (!latest) {
+        throw new Error("The default renewal policy has not been created");
+      }
+
+      const parsed = parsePolicy(req.body ?? {}, latest);
+      if (!parsed.policy) {
+        return res.status(400).json({
+          code: "Error-22-0001",
+          status: "Error",
+          message: parsed.error,
+        });
+      }
+
+      const now = new Date();
+      const effectiveFrom =
+        req.body?.effectiveFrom === undefined
+          ? now
+          : new Date(req.body.effectiveFrom);
+      // Approvals already made must keep the version that was in force
+      if (isNaN(effectiveFrom.getTime()) || effectiveFrom < now) {
+        return res.status(400).json({
+          code: "Error-22-0003",
+          status: "Error",
+          message: "effectiveFrom must be a date that has not passed",
+        });
+      }
+
+      let created;
+      try {
+        created = await RenewalPolicy.create({
+          ...parsed.policy,
+          version: latest.version + 1,
+          effectiveFrom,
+          createdBy: req.user!.userId,
+        });
+      } catch (error) {
+        if ((error as { code?: number }).code !== DUPLICATE_KEY) throw error;
+        return res.status(409).json({
+          code: "Error-22-0004",
+          status: "Error",
+          message:
+            "Another renewal policy version was just published. Review it and try again.",
+        });
+      }
+
+      res.status(201).json({
+        code: "Success-22-0001",
+        status: "Success",
+        message: `Renewal policy version ${created.version} published`,
+        data: created,
+      });
+    } catch (error) {
+      console.error("Error publishing renewal policy:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /renewal-policy/{version}:
+ *   delete:
+ *     summary: Withdraw a version that has not come into force yet
+ *     tags: [Renewal Policy]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Renewal policy version withdrawn
+ *       400:
+ *         description: The version is or was in force and is kept for the record
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-22-0005'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Only versions that have not come into force can be withdrawn'
+ *       404:
+ *         description: Version not found
+ *       500:
+ *         description: Internal server error
+ */
+renewalPolicy.delete(
+  "/:version",
+  verifyToken,
+  requirePermission("renewal:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const version = Number(req.params.version);
+      const policy = Number.isInteger(version)
+        ? await RenewalPolicy.findOne({ version })
+        : null;
+      if (!policy) {
+        return res.status(404).json({
+          code: "Error-22-0002",
+          status: "Error",
+          message: "Renewal policy version not found",
+        });
+      }
+
+      const result = await RenewalPolicy.deleteOne({
+        _id: policy._id,
+        effectiveFrom: { $gt: new Date() },
+      });
+      if (result.deletedCount === 0) {
+        return res.status(400).json({
+          code: "Error-22-0005",
+          status: "Error",
+          message:
+            "Only versions that have not come into force can be withdrawn",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: `Renewal policy version ${version} withdrawn`,
+      });
+    } catch (error) {
+      console.error("Error withdrawing renewal policy:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
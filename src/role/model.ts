@@ -0,0 +1,42 @@
+import mongoose from "mongoose";
+import { DEFAULT_ROLES, PERMISSIONS } from "./permissions";
+
+const roleSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true, unique: true },
+    description: { type: String, default: "" },
+    permissions: [{ type: String, enum: PERMISSIONS }],
+    // Sessions of this role must have passed TOTP before using permissions
+    requiresMfa: { type: Boolean, default: false },
+    // Built-in roles cannot be deleted
+    isSystem: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+);
+
+export const Role = mongoose.model("roles", roleSchema);
+
+/**
+ * Insert the built-in roles that are missing. Existing roles are left as
+ * admins configured them, except that admin always holds every permission,
+ * including ones added in later releases.
+ */
+export const ensureDefaultRoles = async () => {
+  await Promise.all(
+    DEFAULT_ROLES.map((role) =>
+      Role.updateOne(
+        { name: role.name },
+        { $setOnInsert: { ...role, isSystem: true } },
+        { upsert: true }
+      )
+    )
+  );
+
+  await Role.updateOne(
+    { name: "admin" },
+    { $addToSet: { permissions: { $each: [...PERMISSIONS] } } }
+  );
+};
+
+export const findRole = (name?: string) =>
+  name ? Role.findOne({ name }) : Promise.resolve(null);
@@ -0,0 +1,57 @@
+// Every permission a role can be granted. Routers check these through
+// requirePermission() in middleware/middleware.ts.
+export const PERMISSIONS = [
+  "course:write",
+  "enrollment:read",
+  "enrollment:approve",
+  "enrollment:code",
+  "payment:read",
+  "user:manage",
+  "user:impersonate",
+  "role:manage",
+  "apikey:manage",
+  "sso:manage",
+  "legal:manage",
+  "renewal:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === "string" &&
+  (PERMISSIONS as readonly string[]).includes(value);
+
+interface DefaultRole {
+  name: string;
+  description: string;
+  permissions: Permission[];
+  requiresMfa: boolean;
+}
+
+// Created on startup when missing; admins can edit them afterwards
+export const DEFAULT_ROLES: DefaultRole[] = [
+  {
+    name: "admin",
+    description: "Full administrative access",
+    permissions: [...PERMISSIONS],
+    requiresMfa: true,
+  },
+  {
+    name: "user",
+    description: "Trader self-service access",
+    permissions: [],
+    requiresMfa: false,
+  },
+  {
+    name: "finance",
+    description: "Finance staff: payment dashboard",
+    permissions: ["payment:read"],
+    requiresMfa: true,
+  },
+  {
+    name: "coordinator",
+    description: "Course coordinators: attendance codes and enrollment lists",
+    permissions: ["enrollment:read", "enrollment:code"],
+    requiresMfa: false,
+  },
+];
@@ -0,0 +1,484 @@
+import express, { Request, Response } from "express";
+import { Role } from "./model";
+import { PERMISSIONS, isPermission } from "./permissions";
+import { User } from "../user/model";
+import { revokeAllSessions } from "../auth/token";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const role = express.Router();
+
+// Validate a permissions array from a request body
+const parsePermissions = (value: unknown) => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const unknown = value.filter((p) => !isPermission(p));
+  return unknown.length > 0 ? null : Array.from(new Set(value as string[]));
+};
+
+/**
+ * @swagger
+ * /role:
+ *   get:
+ *     summary: List roles and the permissions they grant
+ *     tags: [Role]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Roles retrieved successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     roles:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     availablePermissions:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ['course:write', 'enrollment:approve', 'payment:read', 'user:manage']
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+role.get(
+  "/",
+  verifyToken,
+  requirePermission("role:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const roles = await Role.find().sort({ name: 1 });
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Roles retrieved successfully",
+        data: {
+          roles,
+          availablePermissions: PERMISSIONS,
+        },
+      });
+    } catch (error) {
+      console.error("Error retrieving roles:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error while fetching roles",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /role:
+ *   post:
+ *     summary: Create a role
+ *     tags: [Role]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: 'auditor'
+ *               description:
+ *                 type: string
+ *                 example: 'Read-only access to payments'
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ['payment:read']
+ *               requiresMfa:
+ *                 type: boolean
+ *                 example: true
+ *     responses:
+ *       201:
+ *         description: Role created successfully
+ *       400:
+ *         description: Missing name or unknown permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-07-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'permissions must be an array of known permissions'
+ *       409:
+ *         description: Role already exists
+ *       500:
+ *         description: Internal server error
+ */
+role.post(
+  "/",
+  verifyToken,
+  requirePermission("role:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { name, description, requiresMfa } = req.body;
+      const permissions = parsePermissions(req.body.permissions);
+
+      if (
+        !name ||
+        typeof name !== "string" ||
+        !/^[a-z][a-z0-9-]*$/.test(name)
+      ) {
+        return res.status(400).json({
+          code: "Error-07-0001",
+          status: "Error",
+          message:
+            "name is required and may only contain lowercase letters, digits and dashes",
+        });
+      }
+
+      if (!permissions) {
+        return res.status(400).json({
+          code: "Error-07-0002",
+          status: "Error",
+          message: "permissions must be an array of known permissions",
+        });
+      }
+
+      const existingRole = await Role.findOne({ name });
+      if (existingRole) {
+        return res.status(409).json({
+          code: "Error-07-0003",
+          status: "Error",
+          message: "Role already exists",
+        });
+      }
+
+      const newRole = await Role.create({
+        name,
+        description: description || "",
+        permissions,
+        requiresMfa: !!requiresMfa,
+        isSystem: false,
+      });
+
+      res.status(201).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Role created successfully",
+        data: newRole,
+      });
+    } catch (error) {
+      console.error("Error creating role:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /role/{name}:
+ *   put:
+ *     summary: Update a role's description, permissions or MFA requirement
+ *     tags: [Role]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ['enrollment:read', 'enrollment:code']
+ *               requiresMfa:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Role updated successfully
+ *       400:
+ *         description: Unknown permission
+ *       404:
+ *         description: Role not found
+ *       500:
+ *         description: Internal server error
+ */
+role.put(
+  "/:name",
+  verifyToken,
+  requirePermission("role:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const existingRole = await Role.findOne({ name: req.params.name });
+      if (!existingRole) {
+        return res.status(404).json({
+          code: "Error-07-0004",
+          status: "Error",
+          message: "Role not found",
+        });
+      }
+
+      if (req.body.permissions !== undefined) {
+        const permissions = parsePermissions(req.body.permissions);
+        if (!permissions) {
+          return res.status(400).json({
+            code: "Error-07-0002",
+            status: "Error",
+            message: "permissions must be an array of known permissions",
+          });
+        }
+        existingRole.set("permissions", permissions);
+      }
+
+      if (req.body.description !== undefined) {
+        existingRole.description = String(req.body.description);
+      }
+
+      if (req.body.requiresMfa !== undefined) {
+        existingRole.requiresMfa = !!req.body.requiresMfa;
+      }
+
+      await existingRole.save();
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Role updated successfully",
+        data: existingRole,
+      });
+    } catch (error) {
+      console.error("Error updating role:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /role/{name}:
+ *   delete:
+ *     summary: Delete a custom role
+ *     description: Built-in roles and roles still assigned to users cannot be deleted.
+ *     tags: [Role]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role deleted successfully
+ *       400:
+ *         description: Built-in role or role still in use
+ *       404:
+ *         description: Role not found
+ *       500:
+ *         description: Internal server error
+ */
+role.delete(
+  "/:name",
+  verifyToken,
+  requirePermission("role:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const existingRole = await Role.findOne({ name: req.params.name });
+      if (!existingRole) {
+        return res.status(404).json({
+          code: "Error-07-0004",
+          status: "Error",
+          message: "Role not found",
+        });
+      }
+
+      if (existingRole.isSystem) {
+        return res.status(400).json({
+          code: "Error-07-0005",
+          status: "Error",
+          message: "Built-in roles cannot be deleted",
+        });
+      }
+
+      const assignedUsers = await User.countDocuments({
+        role: existingRole.name,
+      });
+      if (assignedUsers > 0) {
+        return res.status(400).json({
+          code: "Error-07-0006",
+          status: "Error",
+          message: `Role is still assigned to ${assignedUsers} user(s)`,
+        });
+      }
+
+      await Role.deleteOne({ _id: existingRole._id });
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Role deleted successfully",
+      });
+    } catch (error) {
+      console.error("Error deleting role:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /role/assign:
+ *   post:
+ *     summary: Assign a role to a user
+ *     description: Existing sessions of the user are revoked so the new role applies immediately. Callers cannot change their own role.
+ *     tags: [Role]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - role
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 example: '60d21b4667d0d8992e610c85'
+ *               role:
+ *                 type: string
+ *                 example: 'finance'
+ *     responses:
+ *       200:
+ *         description: Role assigned successfully
+ *       400:
+ *         description: Missing fields
+ *       403:
+ *         description: The caller tried to change their own role
+ *       404:
+ *         description: User or role not found
+ *       500:
+ *         description: Internal server error
+ */
+role.post(
+  "/assign",
+  verifyToken,
+  requirePermission("role:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { userId, role: roleName } = req.body;
+      if (!userId || !roleName) {
+        return res.status(400).json({
+          code: "Error-07-0007",
+          status: "Error",
+          message: "userId and role are required",
+        });
+      }
+
+      // Another role manager has to approve any change to the caller's role
+      if (String(userId) === req.user!.userId) {
+        return res.status(403).json({
+          code: "Error-07-0008",
+          status: "Error",
+          message: "You cannot change your own role",
+        });
+      }
+
+      const targetRole = await Role.findOne({ name: roleName });
+      if (!targetRole) {
+        return res.status(404).json({
+          code: "Error-07-0004",
+          status: "Error",
+          message: "Role not found",
+        });
+      }
+
+      const user = await User.findById(userId);
+      if (!user) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      if (user.role !== targetRole.name) {
+        user.role = targetRole.name;
+        await user.save();
+        // Tokens carry the role name, so force a fresh login
+        await revokeAllSessions(user._id, "role-changed");
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Role assigned successfully",
+        data: {
+          userId: user._id,
+          role: user.role,
+        },
+      });
+    } catch (error) {
+      console.error("Error assigning role:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
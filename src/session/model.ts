@@ -0,0 +1,33 @@
+import mongoose from "mongoose";
+
+const sessionSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      required: true,
+      index: true,
+    },
+    refreshTokenHash: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    lastUsedAt: { type: Date, default: Date.now },
+    // Set once the user passed the TOTP second factor in this session
+    mfaVerified: { type: Boolean, default: false },
+    revokedAt: { type: Date, default: null },
+    revokedReason: { type: String, default: "" },
+    // Administrator acting as the user; such sessions cannot be refreshed
+    impersonatorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "users",
+      default: null,
+    },
+    ip: { type: String, default: "" },
+    userAgent: { type: String, default: "" },
+  },
+  { timestamps: true }
+);
+
+// Let MongoDB clean up sessions once the refresh token can no longer be used
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model("sessions", sessionSchema);
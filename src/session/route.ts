@@ -0,0 +1,168 @@
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Session } from "./model";
+import { verifyToken } from "../../middleware/middleware";
+
+export const session = express.Router();
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     summary: List the active sessions (devices) of the current user
+ *     tags: [Session]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Sessions retrieved successfully'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       ip:
+ *                         type: string
+ *                         example: '203.0.113.10'
+ *                       userAgent:
+ *                         type: string
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *                       lastUsedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       current:
+ *                         type: boolean
+ *                         description: True for the session making this request
+ *       401:
+ *         description: Missing or invalid token
+ *       500:
+ *         description: Internal server error
+ */
+session.get("/", verifyToken, async (req: Request, res: Response) => {
+  try {
+    const sessions = await Session.find({
+      userId: req.user!.userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+
+    res.status(200).json({
+      code: "Success-01-0001",
+      status: "Success",
+      message: "Sessions retrieved successfully",
+      data: sessions.map((s) => ({
+        id: s._id,
+        ip: s.ip,
+        userAgent: s.userAgent,
+        createdAt: s.createdAt,
+        lastUsedAt: s.lastUsedAt,
+        mfaVerified: s.mfaVerified,
+        impersonated: !!s.impersonatorId,
+        current: s._id.toString() === req.user!.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error("Error retrieving sessions:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Sign out one device of the current user
+ *     description: The refresh token of the session stops working and its access token is rejected on the next request.
+ *     tags: [Session]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: No active session with this id for the current user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-12-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Session not found'
+ *       500:
+ *         description: Internal server error
+ */
+session.delete(
+  "/:sessionId",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+
+      // Only the owner's own sessions match; others look like a missing id
+      const result = mongoose.isValidObjectId(sessionId)
+        ? await Session.updateOne(
+            { _id: sessionId, userId: req.user!.userId, revokedAt: null },
+            {
+              $set: { revokedAt: new Date(), revokedReason: "revoked-by-user" },
+            }
+          )
+        : null;
+
+      if (!result || result.modifiedCount === 0) {
+        return res.status(404).json({
+          code: "Error-12-0001",
+          status: "Error",
+          message: "Session not found",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Session revoked",
+      });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
@@ -0,0 +1,123 @@
+import { calendarSpan, getLicenceStatus } from "./licence";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Licence dates are read in Bangkok time
+const bangkok = (date: string) => new Date(`${date}T00:00:00+07:00`);
+
+describe("calendarSpan", () => {
+  it("counts whole months, then the days left over", () => {
+    expect(calendarSpan(bangkok("2025-01-15"), bangkok("2025-03-03"))).toEqual({
+      years: 0,
+      months: 1,
+      days: 16,
+    });
+  });
+
+  it("counts 29 February in leap years", () => {
+    expect(calendarSpan(bangkok("2024-01-15"), bangkok("2024-03-03"))).toEqual({
+      years: 0,
+      months: 1,
+      days: 17,
+    });
+  });
+
+  it("counts years before months", () => {
+    expect(calendarSpan(bangkok("2024-01-01"), bangkok("2026-03-05"))).toEqual({
+      years: 2,
+      months: 2,
+      days: 4,
+    });
+  });
+
+  it("is exactly one year on the anniversary", () => {
+    expect(calendarSpan(bangkok("2024-06-30"), bangkok("2025-06-30"))).toEqual({
+      years: 1,
+      months: 0,
+      days: 0,
+    });
+  });
+
+  it("uses the Bangkok calendar day, not the UTC one", () => {
+    // 17:00 UTC on 31 January is already 1 February in Bangkok
+    expect(
+      calendarSpan(bangkok("2025-01-01"), new Date("2025-01-31T17:00:00Z"))
+    ).toEqual({ years: 0, months: 1, days: 0 });
+  });
+
+  it("is zero when the end is not after the start", () => {
+    const date = bangkok("2025-01-15");
+    expect(calendarSpan(date, date)).toEqual({ years: 0, months: 0, days: 0 });
+    expect(calendarSpan(date, bangkok("2024-01-15"))).toEqual({
+      years: 0,
+      months: 0,
+      days: 0,
+    });
+  });
+});
+
+describe("getLicenceStatus", () => {
+  const now = bangkok("2025-01-15");
+  const endingIn = (ms: number) => ({
+    startDate: bangkok("2023-01-15"),
+    endDate: new Date(now.getTime() + ms),
+  });
+
+  afterEach(() => {
+    delete process.env.LICENCE_EXPIRING_DAYS;
+  });
+
+  it("reports traders without an end date as never licensed", () => {
+    expect(getLicenceStatus({ startDate: null, endDate: null }, now)).toEqual({
+      status: "never-licensed",
+      startDate: null,
+      endDate: null,
+      daysRemaining: 0,
+      remaining: { years: 0, months: 0, days: 0 },
+      duration: { years: 0, months: 0, days: 0 },
+    });
+  });
+
+  it("is expired from the end date itself", () => {
+    expect(getLicenceStatus(endingIn(0), now)).toMatchObject({
+      status: "expired",
+      daysRemaining: 0,
+    });
+    expect(getLicenceStatus(endingIn(-DAY), now).status).toBe("expired");
+  });
+
+  it("is expiring up to the last moment before the end date", () => {
+    expect(getLicenceStatus(endingIn(1), now)).toMatchObject({
+      status: "expiring",
+      daysRemaining: 0,
+    });
+  });
+
+  it("is expiring within 90 days and active after that", () => {
+    expect(getLicenceStatus(endingIn(90 * DAY), now)).toMatchObject({
+      status: "expiring",
+      daysRemaining: 90,
+    });
+    expect(getLicenceStatus(endingIn(91 * DAY), now)).toMatchObject({
+      status: "active",
+      daysRemaining: 91,
+    });
+  });
+
+  it("reads the expiring window from LICENCE_EXPIRING_DAYS", () => {
+    process.env.LICENCE_EXPIRING_DAYS = "30";
+
+    expect(getLicenceStatus(endingIn(30 * DAY), now).status).toBe("expiring");
+    expect(getLicenceStatus(endingIn(31 * DAY), now).status).toBe("active");
+  });
+
+  it("reports the remaining time and the licence duration", () => {
+    const licence = getLicenceStatus(
+      { startDate: bangkok("2023-01-15"), endDate: bangkok("2026-03-03") },
+      now
+    );
+
+    expect(licence.remaining).toEqual({ years: 1, months: 1, days: 16 });
+    expect(licence.duration).toEqual({ years: 3, months: 1, days: 16 });
+  });
+});
@@ -0,0 +1,117 @@
+import dayjs from "dayjs";
+import utc from "dayjs/plugin/utc";
+import timezone from "dayjs/plugin/timezone";
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const LICENCE_TIMEZONE = "Asia/Bangkok";
+// Licences ending within this many days are reported as expiring
+// (LICENCE_EXPIRING_DAYS overrides)
+const DEFAULT_LICENCE_EXPIRING_DAYS = 90;
+
+export type LicenceStatus =
+  | "active"
+  | "expiring"
+  | "expired"
+  | "never-licensed";
+
+export interface CalendarSpan {
+  years: number;
+  months: number;
+  days: number;
+}
+
+export interface LicenceInfo {
+  status: LicenceStatus;
+  startDate: Date | null;
+  endDate: Date | null;
+  // Whole days left; 0 once expired
+  daysRemaining: number;
+  remaining: CalendarSpan;
+  duration: CalendarSpan;
+}
+
+interface LicenceDates {
+  startDate?: Date | null;
+  endDate?: Date | null;
+}
+
+const ZERO_SPAN: CalendarSpan = { years: 0, months: 0, days: 0 };
+
+/**
+ * Calendar years, months and days from `from` to `to`, e.g. 15 Jan to
+ * 3 Mar is 1 month 16 days. Zero when `to` is not after `from`.
+ */
+export const calendarSpan = (from: Date, to: Date): CalendarSpan => {
+  const start = dayjs(from).tz(LICENCE_TIMEZONE);
+  const end = dayjs(to).tz(LICENCE_TIMEZONE);
+  if (!end.isAfter(start)) return { ...ZERO_SPAN };
+
+  const years = end.diff(start, "year");
+  const afterYears = start.add(years, "year");
+  const months = end.diff(afterYears, "month");
+  const days = end.diff(afterYears.add(months, "month"), "day");
+  return { years, months, days };
+};
+
+export const getLicenceExpiringDays = () =>
+  Number(process.env.LICENCE_EXPIRING_DAYS) || DEFAULT_LICENCE_EXPIRING_DAYS;
+
+/**
+ * Licence status of a trader, derived from startDate and endDate at the
+ * time of the call
+ */
+export const getLicenceStatus = (
+  trader: LicenceDates,
+  now: Date = new Date()
+): LicenceInfo => {
+  const startDate = trader.startDate || null;
+  const endDate = trader.endDate || null;
+
+  if (!endDate) {
+    return {
+      status: "never-licensed",
+      startDate,
+      endDate,
+      daysRemaining: 0,
+      remaining: { ...ZERO_SPAN },
+      duration: { ...ZERO_SPAN },
+    };
+  }
+
+  const daysRemaining = Math.max(0, dayjs(endDate).diff(now, "day"));
+  let status: LicenceStatus = "active";
+  if (endDate.getTime() <= now.getTime()) {
+    status = "expired";
+  } else if (daysRemaining <= getLicenceExpiringDays()) {
+    status = "expiring";
+  }
+
+  return {
+    status,
+    startDate,
+    endDate,
+    daysRemaining,
+    remaining: calendarSpan(now, endDate),
+    duration: startDate ? calendarSpan(startDate, endDate) : { ...ZERO_SPAN },
+  };
+};
+
+/**
+ * Plain trader object for API responses with the computed licence. The
+ * stored remainingTimeDisplay and durationDisplay are replaced by values
+ * computed now, so older clients reading them see current figures.
+ */
+export const withLicenceStatus = <T extends LicenceDates>(trader: {
+  toObject(): T;
+}) => {
+  const plain = trader.toObject();
+  const licence = getLicenceStatus(plain);
+  return {
+    ...plain,
+    durationDisplay: licence.duration,
+    remainingTimeDisplay: licence.remaining,
+    licence,
+  };
+};
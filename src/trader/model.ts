@@ -9,11 +9,25 @@ const traderSchema = new mongoose.Schema(
     },
     company: { type: String, required: true },
     name: { type: String, required: true },
-    idCard: { type: String, required: true },
+    // Accounts provisioned through single sign-on start without these
+    idCard: {
+      type: String,
+      required: function (this: { profileIncomplete?: boolean }) {
+        return !this.profileIncomplete;
+      },
+    },
     email: { type: String, required: true },
-    phoneNumber: { type: String, required: true },
+    phoneNumber: {
+      type: String,
+      required: function (this: { profileIncomplete?: boolean }) {
+        return !this.profileIncomplete;
+      },
+    },
+    profileIncomplete: { type: Boolean, default: false },
     startDate: { type: Date },
     endDate: { type: Date },
+    // No longer maintained: responses compute both from startDate and
+    // endDate through licence.ts. Kept so older documents still load.
     durationDisplay: {
       years: { type: Number, default: 0 },
       months: { type: Number, default: 0 },
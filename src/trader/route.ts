@@ -1,7 +1,8 @@
 import express, { Request, Response } from "express";
 import { Trader } from "./model";
-import { checkAdminRole, verifyToken } from "../../middleware/middleware";
-import { User } from "../user/model";
+import { verifyToken } from "../../middleware/middleware";
+import { checkUpdatePolicy } from "../policy/ownership";
+import { withLicenceStatus } from "./licence";
 
 require("dotenv").config();
 
@@ -9,6 +10,72 @@ export const trader = express.Router();
 
 /**
  * @swagger
+ * components:
+ *   schemas:
+ *     Licence:
+ *       type: object
+ *       description: Computed from startDate and endDate on every read
+ *       properties:
+ *         status:
+ *           type: string
+ *           enum: [active, expiring, expired, never-licensed]
+ *           description: Expiring means ending within LICENCE_EXPIRING_DAYS (default 90)
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         daysRemaining:
+ *           type: integer
+ *           example: 75
+ *         remaining:
+ *           type: object
+ *           properties:
+ *             years:
+ *               type: integer
+ *             months:
+ *               type: integer
+ *             days:
+ *               type: integer
+ *         duration:
+ *           type: object
+ *           properties:
+ *             years:
+ *               type: integer
+ *             months:
+ *               type: integer
+ *             days:
+ *               type: integer
+ *     TraderWithLicence:
+ *       type: object
+ *       description: Trader document. remainingTimeDisplay and durationDisplay hold the same computed values as licence.remaining and licence.duration.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         name:
+ *           type: string
+ *         company:
+ *           type: string
+ *         email:
+ *           type: string
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         trainings:
+ *           type: array
+ *           items:
+ *             type: object
+ *         licence:
+ *           $ref: '#/components/schemas/Licence'
+ *
  * /trader:
  *   get:
  *     summary: Retrieve all traders
@@ -34,6 +101,8 @@ export const trader = express.Router();
  *                   example: 'Traders retrieved successfully'
  *                 data:
  *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TraderWithLicence'
  *       500:
  *         description: Internal server error
  *         content:
@@ -61,7 +130,7 @@ trader.get("/", verifyToken, async (req: Request, res: Response) => {
       code: "Success-01-0001",
       status: "Success",
       message: "Traders retrieved successfully",
-      data: traders,
+      data: traders.map((t) => withLicenceStatus(t)),
     });
   } catch (error) {
     console.error("Error retrieving traders:", error);
@@ -106,8 +175,7 @@ trader.get("/", verifyToken, async (req: Request, res: Response) => {
  *                   type: string
  *                   example: 'Trader retrieved successfully'
  *                 data:
- *                   type: object
- *                   description: Trader details
+ *                   $ref: '#/components/schemas/TraderWithLicence'
  *       404:
  *         description: Trader not found
  *         content:
@@ -159,7 +227,7 @@ trader.get("/:userId", verifyToken, async (req: Request, res: Response) => {
       code: "Success-01-0001",
       status: "Success",
       message: "Trader retrieved successfully",
-      data: trader,
+      data: withLicenceStatus(trader),
     });
   } catch (error) {
     return res.status(500).json({
@@ -175,6 +243,7 @@ trader.get("/:userId", verifyToken, async (req: Request, res: Response) => {
  * /trader:
  *   put:
  *     summary: Update trader profile
+ *     description: Traders may only update name and phoneNumber on their own profile. company, idCard, startDate, endDate, trainings and isDeleted can only be changed by roles holding user:manage. The email is changed through PUT /user, which verifies the new address.
  *     tags: [Trader]
  *     security:
  *       - bearerAuth: []
@@ -237,15 +306,21 @@ trader.get("/:userId", verifyToken, async (req: Request, res: Response) => {
  *                   type: string
  *                   example: 'Unauthorized'
  *       403:
- *         description: Forbidden - Admin role required
+ *         description: Forbidden - not the owner of the profile, or a field requires administrator privileges
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-08-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
  *                 message:
  *                   type: string
- *                   example: 'Admin role required'
+ *                   example: 'Only administrators can change: idCard, endDate'
  *       404:
  *         description: Trader not found
  *         content:
@@ -304,21 +379,29 @@ trader.put("/", verifyToken, async (req: Request, res: Response) => {
       });
     }
 
-    // Check if email is being updated
-    if (updateFields.email && updateFields.email !== trader.email) {
-      // Find the corresponding user record
-      const user = await User.findOne({ email: trader.email });
+    // Owners may only touch their own record and only allow-listed fields
+    const violation = await checkUpdatePolicy(
+      req,
+      "trader",
+      trader.userId.toString(),
+      Object.keys(updateFields)
+    );
+    if (violation) {
+      return res.status(violation.httpStatus).json({
+        code: violation.code,
+        status: "Error",
+        message: violation.message,
+        data: { rejectedFields: violation.rejectedFields },
+      });
+    }
 
-      if (user) {
-        // Update the user's email
-        await User.updateOne(
-          { email: trader.email },
-          { $set: { email: updateFields.email } }
-        );
-        console.log(
-          `User email updated from ${trader.email} to ${updateFields.email}`
-        );
-      }
+    // Single sign-on profiles are complete once idCard and phone are known
+    if (
+      trader.profileIncomplete &&
+      (updateFields.idCard || trader.idCard) &&
+      (updateFields.phoneNumber || trader.phoneNumber)
+    ) {
+      updateFields.profileIncomplete = false;
     }
 
     // Update the trader with only the fields provided
@@ -0,0 +1,527 @@
+import express, { Request, Response } from "express";
+import bcrypt from "bcrypt";
+import crypto from "crypto";
+import multer from "multer";
+import mongoose from "mongoose";
+import { readSpreadsheet, SpreadsheetError } from "./spreadsheet";
+import { User } from "../user/model";
+import { Trader } from "../trader/model";
+import { Invite } from "../invite/model";
+import { DEFAULT_INVITE_TTL_DAYS, issueInvite } from "../invite/issue";
+import { MAIL_FROM, transporter } from "../auth/mailer";
+import { requirePermission, verifyToken } from "../../middleware/middleware";
+
+export const traderImport = express.Router();
+
+const MAX_IMPORT_ROWS = 1000;
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+});
+
+// Same fields as /register; headers are matched ignoring case, spaces and _
+const IMPORT_COLUMNS = {
+  name: ["name"],
+  email: ["email"],
+  phonenumber: ["phonenumber", "phone"],
+  idCard: ["idcard"],
+  company: ["company"],
+} as const;
+
+type ImportField = keyof typeof IMPORT_COLUMNS;
+
+interface ImportRow {
+  row: number;
+  data: Record<ImportField, string>;
+  errors: string[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normaliseHeader = (header: string) =>
+  header.toLowerCase().replace(/[\s_-]/g, "");
+
+/**
+ * Turn spreadsheet rows into import rows. Returns an error message when the
+ * header row does not name every column.
+ */
+const toImportRows = (
+  sheet: string[][],
+  defaultCompany: string
+): ImportRow[] | string => {
+  const [header = [], ...body] = sheet;
+  const headers = header.map(normaliseHeader);
+
+  const positions = {} as Record<ImportField, number>;
+  for (const [field, aliases] of Object.entries(IMPORT_COLUMNS) as [
+    ImportField,
+    readonly string[]
+  ][]) {
+    positions[field] = headers.findIndex((h) => aliases.includes(h));
+  }
+  const missing = (Object.keys(positions) as ImportField[]).filter(
+    (field) => positions[field] < 0 && !(field === "company" && defaultCompany)
+  );
+  if (missing.length > 0) {
+    return `Missing columns: ${missing.join(", ")}`;
+  }
+
+  const rows: ImportRow[] = [];
+  body.forEach((cells, index) => {
+    if (!cells.some((cell) => cell && cell.trim())) return;
+    const value = (field: ImportField) =>
+      positions[field] >= 0 ? (cells[positions[field]] ?? "").trim() : "";
+
+    rows.push({
+      // Spreadsheet line number, counting the header as line 1
+      row: index + 2,
+      data: {
+        name: value("name"),
+        email: value("email").toLowerCase(),
+        phonenumber: value("phonenumber"),
+        idCard: value("idCard"),
+        company: value("company") || defaultCompany,
+      },
+      errors: [],
+    });
+  });
+  return rows;
+};
+
+/**
+ * Apply the /register checks to every row: required fields, and email,
+ * ID card and phone number not used by an existing account or another row
+ */
+const validateRows = async (rows: ImportRow[]) => {
+  for (const { data, errors } of rows) {
+    for (const field of Object.keys(IMPORT_COLUMNS) as ImportField[]) {
+      if (!data[field]) errors.push(`${field} is required`);
+    }
+    if (data.email && !EMAIL_PATTERN.test(data.email)) {
+      errors.push("email is not a valid email address");
+    }
+  }
+
+  const column = (field: ImportField) =>
+    rows.map((r) => r.data[field]).filter(Boolean);
+  // Stored emails may differ in case from the lowercased rows
+  const caseInsensitive = { locale: "en", strength: 2 };
+  const [users, traders, idCardOwners, phoneOwners] = await Promise.all([
+    User.find({ email: { $in: column("email") } })
+      .collation(caseInsensitive)
+      .select("email"),
+    Trader.find({ email: { $in: column("email") } })
+      .collation(caseInsensitive)
+      .select("email"),
+    Trader.find({ idCard: { $in: column("idCard") } }).select("idCard"),
+    Trader.find({ phoneNumber: { $in: column("phonenumber") } }).select(
+      "phoneNumber"
+    ),
+  ]);
+  const taken = {
+    email: new Set(
+      [...users, ...traders].map((owner) => owner.email.toLowerCase())
+    ),
+    idCard: new Set(idCardOwners.map((t) => t.idCard)),
+    phonenumber: new Set(phoneOwners.map((t) => t.phoneNumber)),
+  };
+  const labels = {
+    email: "Email",
+    idCard: "ID card",
+    phonenumber: "Phone number",
+  };
+
+  for (const field of ["email", "idCard", "phonenumber"] as const) {
+    const firstRow = new Map<string, number>();
+    for (const { row, data, errors } of rows) {
+      const value = data[field];
+      if (!value) continue;
+      if (taken[field].has(value)) {
+        errors.push(`${labels[field]} already exists`);
+      } else if (firstRow.has(value)) {
+        errors.push(
+          `${labels[field]} duplicates row ${firstRow.get(value)} of this file`
+        );
+      } else {
+        firstRow.set(value, row);
+      }
+    }
+  }
+};
+
+const sendTraderInvite = (email: string, name: string, inviteUrl: string) =>
+  transporter.sendMail({
+    from: MAIL_FROM,
+    to: email,
+    subject: "Your B-Trade account is ready",
+    text: `Hello ${name},\n\nYour company has registered you on B-Trade. Click the following link within ${DEFAULT_INVITE_TTL_DAYS} days to set your password and activate your account: ${inviteUrl}`,
+  });
+
+/**
+ * Create the User and Trader for a validated row and email the invitation.
+ * The account has an unusable password until the invite is accepted.
+ */
+const createImportedTrader = async (
+  data: ImportRow["data"],
+  invitedBy: string
+) => {
+  const user = await User.create({
+    email: data.email,
+    password: await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10),
+    role: "user",
+    emailVerified: false,
+  });
+
+  let trader;
+  try {
+    trader = await Trader.create({
+      userId: user._id,
+      company: data.company,
+      name: data.name,
+      idCard: data.idCard,
+      email: data.email,
+      phoneNumber: data.phonenumber,
+      trainings: [],
+    });
+  } catch (error) {
+    await User.deleteOne({ _id: user._id });
+    throw error;
+  }
+
+  let inviteSent = true;
+  try {
+    const { inviteUrl } = await issueInvite({
+      email: user.email,
+      role: user.role,
+      invitedBy,
+      userId: user._id,
+    });
+    await sendTraderInvite(user.email, data.name, inviteUrl);
+  } catch (mailError) {
+    // The invite can be sent again through /trader-import/invites/{userId}
+    console.error("Error sending trader invitation:", mailError);
+    inviteSent = false;
+  }
+
+  return { userId: user._id, traderId: trader._id, inviteSent };
+};
+
+/**
+ * @swagger
+ * /trader-import:
+ *   post:
+ *     summary: Import traders from a CSV or XLSX file
+ *     description: |
+ *       The first row must name the columns name, email, phonenumber, idCard and company (company may instead be given as a form field for the whole file). Every row gets the checks /register makes.
+ *
+ *       By default this is a dry run that only returns the per-row preview. Send `dryRun=false` to create the accounts: each trader gets an invitation email to set their password instead of a password in the file. Rows with errors block the import unless `skipInvalidRows=true`.
+ *
+ *       Format ID card and phone number columns as text, or as a zero-padded number format such as 0000000000, so spreadsheets keep leading zeros.
+ *     tags: [Trader Import]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               company:
+ *                 type: string
+ *                 description: Company for rows without a company column
+ *               dryRun:
+ *                 type: boolean
+ *                 default: true
+ *               skipInvalidRows:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Dry-run preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-20-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     dryRun:
+ *                       type: boolean
+ *                     total:
+ *                       type: integer
+ *                     valid:
+ *                       type: integer
+ *                     invalid:
+ *                       type: integer
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           row:
+ *                             type: integer
+ *                             example: 2
+ *                           email:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                           status:
+ *                             type: string
+ *                             enum: [valid, invalid, created, failed]
+ *                           errors:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                             example: ['ID card already exists']
+ *       201:
+ *         description: Traders created and invited (same body with dryRun false)
+ *       400:
+ *         description: Missing or unreadable file, missing columns, too many rows, or rows with errors
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-20-0003'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Some rows have errors. Fix them or send skipInvalidRows=true.'
+ *       403:
+ *         description: Insufficient permissions
+ *       500:
+ *         description: Internal server error
+ */
+traderImport.post(
+  "/",
+  verifyToken,
+  requirePermission("user:manage"),
+  upload.single("file"),
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          code: "Error-20-0001",
+          status: "Error",
+          message: "Upload a .csv or .xlsx file in the file field",
+        });
+      }
+
+      let sheet: string[][];
+      try {
+        sheet = readSpreadsheet(req.file);
+      } catch (parseError) {
+        if (parseError instanceof SpreadsheetError) {
+          return res.status(400).json({
+            code: "Error-20-0001",
+            status: "Error",
+            message: parseError.message,
+          });
+        }
+        throw parseError;
+      }
+
+      const dryRun = String(req.body.dryRun ?? req.query.dryRun) !== "false";
+      const skipInvalidRows =
+        String(req.body.skipInvalidRows ?? req.query.skipInvalidRows) ===
+        "true";
+      const defaultCompany =
+        typeof req.body.company === "string" ? req.body.company.trim() : "";
+
+      const rows = toImportRows(sheet, defaultCompany);
+      if (typeof rows === "string" || rows.length === 0) {
+        return res.status(400).json({
+          code: "Error-20-0002",
+          status: "Error",
+          message: typeof rows === "string" ? rows : "The file has no rows",
+        });
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({
+          code: "Error-20-0002",
+          status: "Error",
+          message: `Import at most ${MAX_IMPORT_ROWS} rows at a time`,
+        });
+      }
+
+      await validateRows(rows);
+      const invalid = rows.filter((r) => r.errors.length > 0).length;
+
+      const report = rows.map(({ row, data, errors }) => ({
+        row,
+        email: data.email,
+        name: data.name,
+        status: errors.length > 0 ? "invalid" : "valid",
+        errors,
+      }));
+      const summary = {
+        dryRun,
+        total: rows.length,
+        valid: rows.length - invalid,
+        invalid,
+      };
+
+      if (dryRun) {
+        return res.status(200).json({
+          code: "Success-20-0001",
+          status: "Success",
+          message: "Import preview",
+          data: { ...summary, rows: report },
+        });
+      }
+
+      if (invalid > 0 && !skipInvalidRows) {
+        return res.status(400).json({
+          code: "Error-20-0003",
+          status: "Error",
+          message:
+            "Some rows have errors. Fix them or send skipInvalidRows=true.",
+          data: { ...summary, rows: report },
+        });
+      }
+
+      let created = 0;
+      for (const [index, { data, errors }] of rows.entries()) {
+        if (errors.length > 0) continue;
+        try {
+          const result = await createImportedTrader(data, req.user!.userId);
+          Object.assign(report[index], { status: "created", ...result });
+          created++;
+        } catch (createError) {
+          // Usually a duplicate created since validation
+          console.error("Error importing trader:", createError);
+          Object.assign(report[index], {
+            status: "failed",
+            errors: ["Could not create the account"],
+          });
+        }
+      }
+
+      res.status(201).json({
+        code: "Success-20-0002",
+        status: "Success",
+        message: `${created} traders imported`,
+        data: { ...summary, created, rows: report },
+      });
+    } catch (error) {
+      console.error("Error importing traders:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /trader-import/invites/{userId}:
+ *   post:
+ *     summary: Send a new invitation to an imported trader
+ *     description: For imported traders who have not set a password yet, e.g. because the first invitation expired. Earlier invitations stop working.
+ *     tags: [Trader Import]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation sent
+ *       400:
+ *         description: The trader has already accepted an invitation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-20-0004'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'This trader was not imported or has already set a password'
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+traderImport.post(
+  "/invites/:userId",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const user = mongoose.isValidObjectId(userId)
+        ? await User.findOne({ _id: userId, erasedAt: null })
+        : null;
+      if (!user) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      const [imported, accepted] = await Promise.all([
+        Invite.exists({ userId: user._id }),
+        Invite.exists({ userId: user._id, acceptedAt: { $ne: null } }),
+      ]);
+      if (!imported || accepted) {
+        return res.status(400).json({
+          code: "Error-20-0004",
+          status: "Error",
+          message: "This trader was not imported or has already set a password",
+        });
+      }
+
+      const trader = await Trader.findOne({ userId: user._id }).select("name");
+      const { invite, inviteUrl } = await issueInvite({
+        email: user.email,
+        role: user.role,
+        invitedBy: req.user!.userId,
+        userId: user._id,
+      });
+      await sendTraderInvite(user.email, trader?.name ?? "", inviteUrl);
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Invitation sent",
+        data: { expiresAt: invite.expiresAt },
+      });
+    } catch (error) {
+      console.error("Error resending trader invitation:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
@@ -0,0 +1,190 @@
+import zlib from "zlib";
+import {
+  parseCsv,
+  parseXlsx,
+  readSpreadsheet,
+  SpreadsheetError,
+} from "./spreadsheet";
+
+/**
+ * A minimal ZIP writer: deflated entries, no CRCs (the parser ignores them)
+ */
+const zip = (files: Record<string, string | Buffer>) => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = zlib.deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+
+const workbook = (sheetData: string, extra: Record<string, string> = {}) =>
+  zip({
+    "xl/workbook.xml":
+      '<workbook><sheets><sheet name="Traders" r:id="rId1"/></sheets></workbook>',
+    "xl/_rels/workbook.xml.rels":
+      '<Relationships><Relationship Id="rId1" Target="worksheets/traders.xml"/></Relationships>',
+    "xl/worksheets/traders.xml": `<worksheet><sheetData>${sheetData}</sheetData></worksheet>`,
+    ...extra,
+  });
+
+const expectSpreadsheetError = (buffer: Buffer, message: string) => {
+  expect(() => parseXlsx(buffer)).toThrow(SpreadsheetError);
+  expect(() => parseXlsx(buffer)).toThrow(message);
+};
+
+describe("parseCsv", () => {
+  it("reads quoted commas, quotes and line breaks", () => {
+    const csv =
+      'name,company\r\n"Doe, Jane","The ""Best"" Co"\n"Multi\nline",x';
+
+    expect(parseCsv(Buffer.from(csv))).toEqual([
+      ["name", "company"],
+      ["Doe, Jane", 'The "Best" Co'],
+      ["Multi\nline", "x"],
+    ]);
+  });
+
+  it("drops a leading byte order mark", () => {
+    expect(parseCsv(Buffer.from("\uFEFFemail\na@b.co\n"))).toEqual([
+      ["email"],
+      ["a@b.co"],
+    ]);
+  });
+
+  it("keeps phone numbers and ID cards as written", () => {
+    expect(parseCsv(Buffer.from("0812345678,1234567890123"))).toEqual([
+      ["0812345678", "1234567890123"],
+    ]);
+  });
+});
+
+describe("parseXlsx", () => {
+  it("reads shared, inline and rich-text strings from the first sheet", () => {
+    const buffer = workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>company</t></is></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="C2" t="str"><v>A &amp; B</v></c></row>',
+      {
+        "xl/sharedStrings.xml":
+          '<sst><si><t>name</t></si><si><r><t>Jane </t></r><r><t xml:space="preserve">Doe</t></r></si></sst>',
+      }
+    );
+
+    expect(parseXlsx(buffer)).toEqual([
+      ["name", "company"],
+      ["Jane Doe", "", "A & B"],
+    ]);
+  });
+
+  it("keeps spreadsheet row numbers when rows are skipped", () => {
+    const buffer = workbook(
+      '<row r="1"><c r="A1"><v>1</v></c></row><row r="3"><c r="A3"><v>3</v></c></row>'
+    );
+
+    expect(parseXlsx(buffer)).toEqual([["1"], [], ["3"]]);
+  });
+
+  it("expands ID cards that Excel stored in scientific notation", () => {
+    const buffer = workbook(
+      '<row r="1"><c r="A1"><v>1.234567890123E+12</v></c><c r="B1"><v>12.5</v></c><c r="C1"><v>1.5E-3</v></c></row>'
+    );
+
+    expect(parseXlsx(buffer)).toEqual([["1234567890123", "12.5", "0.0015"]]);
+  });
+
+  it("restores leading zeros from a zero-padded number format", () => {
+    const buffer = workbook(
+      '<row r="1"><c r="A1" s="1"><v>812345678</v></c><c r="B1"><v>812345678</v></c></row>',
+      {
+        "xl/styles.xml":
+          '<styleSheet><numFmts count="1"><numFmt numFmtId="164" formatCode="0000000000"/></numFmts>' +
+          '<cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="164"/></cellXfs></styleSheet>',
+      }
+    );
+
+    expect(parseXlsx(buffer)).toEqual([["0812345678", "812345678"]]);
+  });
+
+  it("refuses a file that is not a ZIP archive", () => {
+    expectSpreadsheetError(
+      Buffer.from("name,email\n".repeat(10)),
+      "not a valid XLSX"
+    );
+  });
+
+  it("reports a corrupt central directory as an invalid workbook", () => {
+    const buffer = workbook('<row r="1"><c r="A1"><v>1</v></c></row>');
+    buffer.writeUInt32LE(0xfffffff0, buffer.length - 6);
+
+    expectSpreadsheetError(buffer, "not a valid XLSX");
+  });
+
+  it("stops inflating a zip bomb", () => {
+    const buffer = zip({
+      "xl/worksheets/sheet1.xml": "<worksheet/>",
+      "padding.bin": Buffer.alloc(60 * 1024 * 1024),
+    });
+
+    expectSpreadsheetError(buffer, "too large");
+  });
+
+  it("refuses references far outside the sheet", () => {
+    expectSpreadsheetError(
+      workbook('<row r="999999999"><c r="A999999999"><v>1</v></c></row>'),
+      "more than 10000 rows"
+    );
+    expectSpreadsheetError(
+      workbook('<row r="1"><c r="ZZZZZZZZZZ1"><v>1</v></c></row>'),
+      "more than 256 columns"
+    );
+  });
+});
+
+describe("readSpreadsheet", () => {
+  it("picks the parser from the file name", () => {
+    expect(
+      readSpreadsheet({
+        originalname: "traders.CSV",
+        mimetype: "application/octet-stream",
+        buffer: Buffer.from("a,b"),
+      })
+    ).toEqual([["a", "b"]]);
+  });
+
+  it("refuses other file types", () => {
+    expect(() =>
+      readSpreadsheet({
+        originalname: "traders.xls",
+        mimetype: "application/vnd.ms-excel",
+        buffer: Buffer.alloc(0),
+      })
+    ).toThrow(SpreadsheetError);
+  });
+});
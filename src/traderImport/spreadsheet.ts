@@ -0,0 +1,322 @@
+import zlib from "zlib";
+
+// Reads the first worksheet of a CSV or XLSX upload into rows of strings.
+// Only what trader imports need: no formulas, dates or multiple sheets.
+
+export class SpreadsheetError extends Error {}
+
+// Bounds for untrusted workbooks: decompressed size and sheet dimensions
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+const MAX_ROWS = 10000;
+const MAX_COLUMNS = 256;
+
+const INVALID_WORKBOOK = "File is not a valid XLSX workbook";
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+ */
+export const parseCsv = (buffer: Buffer): string[][] => {
+  const text = buffer.toString("utf8").replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Entries of a ZIP archive (an XLSX file), decompressed. Offsets outside the
+ * buffer make the read methods throw, which parseXlsx reports as invalid.
+ */
+const readZip = (buffer: Buffer): Map<string, Buffer> => {
+  // The end of central directory record sits in the last 64 KiB + 22 bytes
+  let end = -1;
+  for (
+    let i = buffer.length - 22;
+    i >= Math.max(0, buffer.length - 65557);
+    i--
+  ) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new SpreadsheetError(INVALID_WORKBOOK);
+  }
+
+  const entries = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  let remaining = MAX_UNCOMPRESSED_BYTES;
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new SpreadsheetError(INVALID_WORKBOOK);
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataStart =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) {
+      throw new SpreadsheetError(INVALID_WORKBOOK);
+    }
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      if (remaining <= 0) {
+        throw new SpreadsheetError("The workbook is too large");
+      }
+      let inflated: Buffer;
+      try {
+        // Stop inflating at the size budget instead of trusting the archive
+        inflated = zlib.inflateRawSync(data, { maxOutputLength: remaining });
+      } catch (error) {
+        throw new SpreadsheetError(
+          (error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE"
+            ? "The workbook is too large"
+            : INVALID_WORKBOOK
+        );
+      }
+      remaining -= inflated.length;
+      entries.set(name, inflated);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&amp;/g, "&");
+
+// Text of a shared or inline string, joining rich-text runs
+const stringText = (xml: string) =>
+  decodeXml(
+    Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+      .map((match) => match[1])
+      .join("")
+  );
+
+/**
+ * Number cells as digits: Excel writes large numbers (ID cards) in
+ * scientific notation, which is expanded back to the full number
+ */
+const numberText = (raw: string) => {
+  const match = raw.match(/^(-?)(\d+)(?:\.(\d+))?[eE]([+-]?\d+)$/);
+  if (!match || Math.abs(Number(match[4])) > 30) {
+    return raw;
+  }
+  const [, sign, whole, fraction = "", exponent] = match;
+  const digits = whole + fraction;
+  const point = whole.length + Number(exponent);
+  let text: string;
+  if (point <= 0) {
+    text = `0.${"0".repeat(-point)}${digits}`;
+  } else if (point >= digits.length) {
+    text = digits + "0".repeat(point - digits.length);
+  } else {
+    text = `${digits.slice(0, point)}.${digits.slice(point)}`;
+  }
+  return sign + text.replace(/^0+(?=\d)/, "");
+};
+
+/**
+ * Digit counts of the zero-padded number formats ("0000000000") per cell
+ * style, so phone numbers stored as numbers get their leading zeros back
+ */
+const zeroPaddedStyles = (styles: string) => {
+  const formats = new Map<string, number>();
+  for (const match of styles.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const id = match[1].match(/\bnumFmtId="(\d+)"/)?.[1];
+    const code = decodeXml(match[1].match(/\bformatCode="([^"]*)"/)?.[1] ?? "");
+    if (id && /^0+$/.test(code)) {
+      formats.set(id, code.length);
+    }
+  }
+
+  const cellXfs = styles.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1];
+  return Array.from((cellXfs ?? "").matchAll(/<xf\b([^>]*)>/g), (match) =>
+    formats.get(match[1].match(/\bnumFmtId="(\d+)"/)?.[1] ?? "")
+  );
+};
+
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/\d+$/, "");
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+    if (index > MAX_COLUMNS) {
+      throw new SpreadsheetError(
+        `The worksheet has more than ${MAX_COLUMNS} columns`
+      );
+    }
+  }
+  return index - 1;
+};
+
+export const parseXlsx = (buffer: Buffer): string[][] => {
+  try {
+    return readWorkbook(buffer);
+  } catch (error) {
+    if (error instanceof SpreadsheetError) throw error;
+    throw new SpreadsheetError(INVALID_WORKBOOK);
+  }
+};
+
+const readWorkbook = (buffer: Buffer): string[][] => {
+  const entries = readZip(buffer);
+  const workbook = entries.get("xl/workbook.xml")?.toString("utf8");
+  const relations = entries.get("xl/_rels/workbook.xml.rels")?.toString("utf8");
+
+  // Resolve the first sheet through the workbook relationships
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const firstSheetId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target = firstSheetId
+    ? relations
+        ?.match(
+          new RegExp(`<Relationship\\b[^>]*\\bId="${firstSheetId}"[^>]*>`)
+        )?.[0]
+        .match(/\bTarget="([^"]+)"/)?.[1]
+    : undefined;
+  if (target) {
+    sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheet = entries.get(sheetPath)?.toString("utf8");
+  if (!sheet) {
+    throw new SpreadsheetError("The workbook has no worksheet");
+  }
+
+  const sharedStrings = Array.from(
+    (entries.get("xl/sharedStrings.xml")?.toString("utf8") ?? "").matchAll(
+      /<si>([\s\S]*?)<\/si>/g
+    )
+  ).map((match) => stringText(match[1]));
+  const paddedStyles = zeroPaddedStyles(
+    entries.get("xl/styles.xml")?.toString("utf8") ?? ""
+  );
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowNumber = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1]);
+    const row: string[] = [];
+
+    for (const cell of rowMatch[2].matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    )) {
+      const attributes = cell[1];
+      const body = cell[2] ?? "";
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const style = attributes.match(/\bs="(\d+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s" && raw !== undefined) {
+        value = sharedStrings[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        value = stringText(body);
+      } else if (raw !== undefined && (type === undefined || type === "n")) {
+        value = numberText(decodeXml(raw).trim());
+        const width = style ? paddedStyles[Number(style)] : undefined;
+        if (width && /^\d+$/.test(value)) {
+          value = value.padStart(width, "0");
+        }
+      } else if (raw !== undefined) {
+        value = decodeXml(raw);
+      }
+
+      const column = reference ? columnIndex(reference) : row.length;
+      if (column >= MAX_COLUMNS) {
+        throw new SpreadsheetError(
+          `The worksheet has more than ${MAX_COLUMNS} columns`
+        );
+      }
+      row[column] = value;
+    }
+
+    // Keep spreadsheet row numbers so errors point at the right line
+    const index = rowNumber ? rowNumber - 1 : rows.length;
+    if (index >= MAX_ROWS) {
+      throw new SpreadsheetError(
+        `The worksheet has more than ${MAX_ROWS} rows`
+      );
+    }
+    rows[index] = Array.from(row, (value) => value ?? "");
+  }
+
+  return Array.from(rows, (row) => row ?? []);
+};
+
+/**
+ * Pick the parser from the file name or MIME type
+ */
+export const readSpreadsheet = (file: {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}): string[][] => {
+  const name = file.originalname.toLowerCase();
+  if (
+    name.endsWith(".xlsx") ||
+    file.mimetype ===
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  ) {
+    return parseXlsx(file.buffer);
+  }
+  if (name.endsWith(".csv") || file.mimetype === "text/csv") {
+    return parseCsv(file.buffer);
+  }
+  throw new SpreadsheetError("Upload a .csv or .xlsx file");
+};
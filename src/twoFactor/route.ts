@@ -0,0 +1,723 @@
+import express, { Request, Response } from "express";
+import { User } from "../user/model";
+import { Session } from "../session/model";
+import { findRole } from "../role/model";
+import { verifyToken } from "../../middleware/middleware";
+import { completeLogin, recordLoginEvent } from "../auth/login";
+import { hashToken, signAccessToken, verifyPurposeToken } from "../auth/token";
+import {
+  clearLoginFailures,
+  getLockedUntil,
+  recordLoginFailure,
+} from "../auth/lockout";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normaliseRecoveryCode,
+  verifyTotp,
+} from "../auth/totp";
+
+export const twoFactor = express.Router();
+
+// Define ResponseObject interface
+interface ResponseObject {
+  code: string;
+  status: string;
+  data?: object;
+  message?: string;
+}
+
+const TWO_FACTOR_FIELDS =
+  "+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes";
+
+// Matches only while `step` is newer than the last accepted code, so two
+// requests racing with the same code cannot both pass
+const unusedStepFilter = (userId: unknown, step: number) => ({
+  _id: userId,
+  $or: [
+    { "twoFactor.lastUsedStep": null },
+    { "twoFactor.lastUsedStep": { $lt: step } },
+  ],
+});
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Start TOTP enrolment for the logged-in user
+ *     description: Returns a new secret and otpauth URI for an authenticator app. Enrolment is only active after /auth/2fa/enable confirms a code.
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-06-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Scan the QR code with your authenticator app'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP'
+ *                     otpauthUri:
+ *                       type: string
+ *                       example: 'otpauth://totp/B-Trade%3Aadmin%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=B-Trade'
+ *       400:
+ *         description: Two-factor authentication already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-06-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Two-factor authentication is already enabled'
+ *       500:
+ *         description: Internal server error
+ */
+twoFactor.post("/setup", verifyToken, async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      return res.status(404).json({
+        code: "Error-06-0002",
+        status: "Error",
+        message: "User not found",
+      });
+    }
+
+    if (user.twoFactor?.enabled) {
+      return res.status(400).json({
+        code: "Error-06-0001",
+        status: "Error",
+        message: "Two-factor authentication is already enabled",
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { "twoFactor.pendingSecret": secret } }
+    );
+
+    const response: ResponseObject = {
+      code: "Success-06-0001",
+      status: "Success",
+      message: "Scan the QR code with your authenticator app",
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(user.email, secret),
+      },
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error starting 2FA setup:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /auth/2fa/enable:
+ *   post:
+ *     summary: Confirm TOTP enrolment with a code from the authenticator app
+ *     description: Returns one-time recovery codes (shown only once) and a new access token for the current session marked as having passed the second factor.
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-06-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Two-factor authentication enabled'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     token:
+ *                       type: string
+ *       400:
+ *         description: No pending enrolment or invalid code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-06-0004'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Invalid authentication code'
+ *       500:
+ *         description: Internal server error
+ */
+twoFactor.post("/enable", verifyToken, async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({
+        code: "Error-02-0001",
+        status: "Error",
+        message: "Missing required field: code.",
+      });
+    }
+
+    const user = await User.findById(req.user!.userId).select(
+      TWO_FACTOR_FIELDS
+    );
+    if (!user) {
+      return res.status(404).json({
+        code: "Error-06-0002",
+        status: "Error",
+        message: "User not found",
+      });
+    }
+
+    const pendingSecret = user.twoFactor?.pendingSecret;
+    if (user.twoFactor?.enabled || !pendingSecret) {
+      return res.status(400).json({
+        code: "Error-06-0003",
+        status: "Error",
+        message: "No pending two-factor enrolment. Call /auth/2fa/setup first.",
+      });
+    }
+
+    const step = verifyTotp(pendingSecret, String(code));
+    if (step === null) {
+      return res.status(400).json({
+        code: "Error-06-0004",
+        status: "Error",
+        message: "Invalid authentication code",
+      });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          "twoFactor.enabled": true,
+          "twoFactor.secret": pendingSecret,
+          "twoFactor.recoveryCodes": recoveryCodes.map(hashToken),
+          "twoFactor.lastUsedStep": step,
+          "twoFactor.enabledAt": new Date(),
+        },
+        $unset: { "twoFactor.pendingSecret": "" },
+      }
+    );
+
+    // The code just proved possession of the second factor for this session
+    await Session.updateOne(
+      { _id: req.user!.sessionId },
+      { $set: { mfaVerified: true } }
+    );
+
+    const token = signAccessToken({
+      userId: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      sessionId: req.user!.sessionId,
+      mfa: true,
+    });
+
+    const response: ResponseObject = {
+      code: "Success-06-0002",
+      status: "Success",
+      message: "Two-factor authentication enabled",
+      data: {
+        recoveryCodes,
+        token,
+      },
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error enabling 2FA:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /auth/2fa/verify:
+ *   post:
+ *     summary: Complete a two-step login
+ *     description: Exchanges the `challengeToken` returned by /login plus a TOTP code or a recovery code for the normal /login response.
+ *     tags: [Two-Factor Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *               recoveryCode:
+ *                 type: string
+ *                 example: 'a1b2c-3d4e5'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Login successful'
+ *                 data:
+ *                   type: object
+ *       400:
+ *         description: Missing fields
+ *       401:
+ *         description: Invalid or expired challenge, or invalid code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-06-0004'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Invalid authentication code'
+ *       403:
+ *         description: Account not active
+ *       429:
+ *         description: Too many failed attempts for this account or IP address
+ *       500:
+ *         description: Internal server error
+ */
+twoFactor.post("/verify", async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({
+        code: "Error-02-0001",
+        status: "Error",
+        message:
+          "Missing required fields: challengeToken and code or recoveryCode.",
+      });
+    }
+
+    let decoded;
+    try {
+      decoded = verifyPurposeToken(challengeToken, "mfa-challenge");
+    } catch (err) {
+      return res.status(401).json({
+        code: "Error-06-0005",
+        status: "Error",
+        message: "Login challenge is invalid or expired. Please log in again.",
+      });
+    }
+
+    const user = await User.findById(decoded.userId).select(TWO_FACTOR_FIELDS);
+    if (!user || !user.twoFactor?.enabled || !user.twoFactor.secret) {
+      return res.status(401).json({
+        code: "Error-06-0005",
+        status: "Error",
+        message: "Login challenge is invalid or expired. Please log in again.",
+      });
+    }
+
+    if (user.status !== "Active") {
+      return res.status(403).json({
+        code: "Error-02-0005",
+        status: "Error",
+        message: `Account is ${user.status}. Please contact support.`,
+      });
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const ip = req.ip || "";
+    const lockedUntil = await getLockedUntil(user.email, ip);
+    if (lockedUntil) {
+      return res.status(429).json({
+        code: "Error-02-0008",
+        status: "Error",
+        message: `Too many failed login attempts. Please try again after ${lockedUntil.toISOString()}.`,
+        data: { lockedUntil },
+      });
+    }
+
+    if (code) {
+      const step = verifyTotp(
+        user.twoFactor.secret,
+        String(code),
+        user.twoFactor.lastUsedStep
+      );
+      if (step === null) {
+        await recordLoginFailure(user.email, ip);
+        await recordLoginEvent(req, {
+          userId: user._id,
+          email: user.email,
+          method: "2fa",
+          success: false,
+          failureReason: "invalid-code",
+        });
+        return res.status(401).json({
+          code: "Error-06-0004",
+          status: "Error",
+          message: "Invalid authentication code",
+        });
+      }
+      const claimed = await User.updateOne(unusedStepFilter(user._id, step), {
+        $set: { "twoFactor.lastUsedStep": step },
+      });
+      if (claimed.matchedCount === 0) {
+        await recordLoginFailure(user.email, ip);
+        await recordLoginEvent(req, {
+          userId: user._id,
+          email: user.email,
+          method: "2fa",
+          success: false,
+          failureReason: "reused-code",
+        });
+        return res.status(401).json({
+          code: "Error-06-0004",
+          status: "Error",
+          message: "Invalid authentication code",
+        });
+      }
+    } else {
+      // Recovery codes are single use: remove the hash atomically
+      const recoveryHash = hashToken(normaliseRecoveryCode(recoveryCode));
+      const consumed = await User.updateOne(
+        { _id: user._id, "twoFactor.recoveryCodes": recoveryHash },
+        { $pull: { "twoFactor.recoveryCodes": recoveryHash } }
+      );
+      if (consumed.modifiedCount === 0) {
+        await recordLoginFailure(user.email, ip);
+        await recordLoginEvent(req, {
+          userId: user._id,
+          email: user.email,
+          method: "2fa",
+          success: false,
+          failureReason: "invalid-recovery-code",
+        });
+        return res.status(401).json({
+          code: "Error-06-0006",
+          status: "Error",
+          message: "Invalid recovery code",
+        });
+      }
+    }
+
+    await clearLoginFailures(user.email);
+
+    const response: ResponseObject = {
+      code: "Success-01-0002",
+      status: "Success",
+      message: "Login successful",
+      data: await completeLogin(user, req, {
+        mfaVerified: true,
+        method: "2fa",
+      }),
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    console.error("Error verifying 2FA login:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace all recovery codes
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: New recovery codes generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-06-0003'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Two-factor authentication not enabled or invalid code
+ *       500:
+ *         description: Internal server error
+ */
+twoFactor.post(
+  "/recovery-codes",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    try {
+      const user = await User.findById(req.user!.userId).select(
+        TWO_FACTOR_FIELDS
+      );
+      if (!user || !user.twoFactor?.enabled || !user.twoFactor.secret) {
+        return res.status(400).json({
+          code: "Error-06-0007",
+          status: "Error",
+          message: "Two-factor authentication is not enabled",
+        });
+      }
+
+      const step = verifyTotp(
+        user.twoFactor.secret,
+        String(req.body.code || ""),
+        user.twoFactor.lastUsedStep
+      );
+      if (step === null) {
+        return res.status(400).json({
+          code: "Error-06-0004",
+          status: "Error",
+          message: "Invalid authentication code",
+        });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const claimed = await User.updateOne(unusedStepFilter(user._id, step), {
+        $set: {
+          "twoFactor.recoveryCodes": recoveryCodes.map(hashToken),
+          "twoFactor.lastUsedStep": step,
+        },
+      });
+      if (claimed.matchedCount === 0) {
+        return res.status(400).json({
+          code: "Error-06-0004",
+          status: "Error",
+          message: "Invalid authentication code",
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-06-0003",
+        status: "Success",
+        message: "Recovery codes regenerated",
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error.",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     description: Not allowed for roles that require two-factor authentication (such as admin).
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Two-factor authentication not enabled or invalid code
+ *       403:
+ *         description: Role requires two-factor authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-06-0008'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Two-factor authentication is required for admin accounts'
+ *       500:
+ *         description: Internal server error
+ */
+twoFactor.post("/disable", verifyToken, async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.user!.userId).select(
+      TWO_FACTOR_FIELDS
+    );
+    if (!user || !user.twoFactor?.enabled || !user.twoFactor.secret) {
+      return res.status(400).json({
+        code: "Error-06-0007",
+        status: "Error",
+        message: "Two-factor authentication is not enabled",
+      });
+    }
+
+    const role = await findRole(user.role);
+    if (role?.requiresMfa) {
+      return res.status(403).json({
+        code: "Error-06-0008",
+        status: "Error",
+        message: `Two-factor authentication is required for ${user.role} accounts`,
+      });
+    }
+
+    const step = verifyTotp(
+      user.twoFactor.secret,
+      String(req.body.code || ""),
+      user.twoFactor.lastUsedStep
+    );
+    if (step === null) {
+      return res.status(400).json({
+        code: "Error-06-0004",
+        status: "Error",
+        message: "Invalid authentication code",
+      });
+    }
+
+    const disabled = await User.updateOne(unusedStepFilter(user._id, step), {
+      $set: {
+        "twoFactor.enabled": false,
+        "twoFactor.enabledAt": null,
+        "twoFactor.lastUsedStep": null,
+      },
+      $unset: {
+        "twoFactor.secret": "",
+        "twoFactor.pendingSecret": "",
+        "twoFactor.recoveryCodes": "",
+      },
+    });
+    if (disabled.matchedCount === 0) {
+      return res.status(400).json({
+        code: "Error-06-0004",
+        status: "Error",
+        message: "Invalid authentication code",
+      });
+    }
+
+    res.status(200).json({
+      code: "Success-06-0004",
+      status: "Success",
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error) {
+    console.error("Error disabling 2FA:", error);
+    res.status(500).json({
+      code: "Error-03-0001",
+      status: "Error",
+      message: "Internal server error.",
+    });
+  }
+});
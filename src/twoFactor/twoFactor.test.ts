@@ -0,0 +1,153 @@
+import http from "http";
+import { AddressInfo } from "net";
+import axios from "axios";
+import express from "express";
+import { twoFactor } from "./route";
+
+// RFC 6238 secret and the code it gives at 1111111109 seconds
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const CODE = "081804";
+const NOW = 1111111109 * 1000;
+
+interface MockTwoFactor {
+  enabled: boolean;
+  secret: string;
+  lastUsedStep: number | null;
+  recoveryCodes: string[];
+}
+
+const mockUser = {
+  _id: "64b000000000000000000001",
+  email: "trader@btrade.example",
+  status: "Active",
+  twoFactor: {} as MockTwoFactor,
+};
+
+// findById hands out a copy, like a fresh document per request; updateOne
+// checks its filter and applies the change in one step
+jest.mock("../user/model", () => ({
+  User: {
+    findById: jest.fn(() => ({
+      select: async () => ({
+        ...mockUser,
+        twoFactor: { ...mockUser.twoFactor },
+      }),
+    })),
+    updateOne: jest.fn(
+      async (
+        filter: Record<string, any>,
+        update: { $set?: Record<string, any>; $pull?: Record<string, any> }
+      ) => {
+        const stored = mockUser.twoFactor;
+        if (filter.$or) {
+          const step = filter.$or[1]["twoFactor.lastUsedStep"].$lt;
+          if (stored.lastUsedStep !== null && stored.lastUsedStep >= step) {
+            return { matchedCount: 0, modifiedCount: 0 };
+          }
+          stored.lastUsedStep = update.$set!["twoFactor.lastUsedStep"];
+          return { matchedCount: 1, modifiedCount: 1 };
+        }
+
+        const hash = filter["twoFactor.recoveryCodes"];
+        if (!stored.recoveryCodes.includes(hash)) {
+          return { matchedCount: 0, modifiedCount: 0 };
+        }
+        stored.recoveryCodes = stored.recoveryCodes.filter((h) => h !== hash);
+        return { matchedCount: 1, modifiedCount: 1 };
+      }
+    ),
+  },
+}));
+
+jest.mock("../session/model", () => ({ Session: {} }));
+jest.mock("../role/model", () => ({ findRole: jest.fn() }));
+
+jest.mock("../auth/token", () => ({
+  ...jest.requireActual("../auth/token"),
+  verifyPurposeToken: () => ({ userId: "64b000000000000000000001" }),
+}));
+
+jest.mock("../auth/login", () => ({
+  completeLogin: jest.fn(async () => ({ token: "access-token" })),
+  recordLoginEvent: jest.fn(async () => undefined),
+}));
+
+jest.mock("../auth/lockout", () => ({
+  clearLoginFailures: jest.fn(async () => undefined),
+  getLockedUntil: jest.fn(async () => null),
+  recordLoginFailure: jest.fn(async () => undefined),
+}));
+
+jest.mock("../../middleware/middleware", () => ({
+  verifyToken: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+describe("POST /auth/2fa/verify", () => {
+  let server: http.Server;
+  let api: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use("/auth/2fa", twoFactor);
+    server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    api = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    const { hashToken } = jest.requireActual("../auth/token");
+    mockUser.twoFactor = {
+      enabled: true,
+      secret: SECRET,
+      lastUsedStep: null,
+      recoveryCodes: [hashToken("abcde-12345")],
+    };
+    jest.spyOn(Date, "now").mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const verify = (body: object) =>
+    axios.post(
+      `${api}/auth/2fa/verify`,
+      { challengeToken: "challenge-token", ...body },
+      { validateStatus: () => true }
+    );
+
+  it("accepts a code once", async () => {
+    const first = await verify({ code: CODE });
+    expect(first.status).toBe(200);
+    expect(first.data.code).toBe("Success-01-0002");
+
+    const replay = await verify({ code: CODE });
+    expect(replay.status).toBe(401);
+    expect(replay.data.code).toBe("Error-06-0004");
+  });
+
+  it("lets only one of two parallel requests with the same code log in", async () => {
+    const responses = await Promise.all([
+      verify({ code: CODE }),
+      verify({ code: CODE }),
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([
+      200, 401,
+    ]);
+  });
+
+  it("accepts a recovery code typed differently, once", async () => {
+    const first = await verify({ recoveryCode: "ABCDE 12345" });
+    expect(first.status).toBe(200);
+
+    const replay = await verify({ recoveryCode: "abcde-12345" });
+    expect(replay.status).toBe(401);
+    expect(replay.data.code).toBe("Error-06-0006");
+  });
+});
@@ -1,13 +1,30 @@
 import mongoose from "mongoose";
 
+// Only "Active" users can log in
+export const USER_STATUSES = ["Active", "InActive", "Suspended"] as const;
+
+export type UserStatus = (typeof USER_STATUSES)[number];
+
 const userSchema = new mongoose.Schema(
   {
     email: { type: String, required: true, unique: true },
     password: { type: String, required: true },
-    role: { type: String, enum: ["admin", "user"], required: true },
+    // Hashes of previous passwords, newest last
+    passwordHistory: { type: [String], select: false, default: [] },
+    passwordChangedAt: {
+      type: Date,
+      default: null,
+    },
+    // Set by an admin; the next login must choose a new password
+    mustChangePassword: {
+      type: Boolean,
+      default: false,
+    },
+    // Name of a document in the roles collection
+    role: { type: String, required: true, default: "user" },
     status: {
       type: String,
-      enum: ["Active", "InActive"],
+      enum: USER_STATUSES,
       default: "Active",
     },
     statusReason: {
@@ -22,6 +39,57 @@ const userSchema = new mongoose.Schema(
       type: Date,
       default: null,
     },
+    // Accounts created before email verification existed count as verified;
+    // /register explicitly starts new accounts as unverified
+    emailVerified: {
+      type: Boolean,
+      default: true,
+    },
+    emailVerifiedAt: {
+      type: Date,
+      default: null,
+    },
+    verificationEmailSentAt: {
+      type: Date,
+      default: null,
+    },
+    // Identities at corporate OpenID Connect providers linked to this user
+    externalIdentities: [
+      {
+        provider: String,
+        subject: String,
+        linkedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    // TOTP two-factor authentication; secrets are never returned by default
+    twoFactor: {
+      enabled: { type: Boolean, default: false },
+      secret: { type: String, select: false },
+      pendingSecret: { type: String, select: false },
+      recoveryCodes: { type: [String], select: false },
+      lastUsedStep: { type: Number, default: null },
+      enabledAt: { type: Date, default: null },
+    },
+    // Dormancy job: when the "about to be deactivated" email went out, and
+    // accounts an administrator excluded from automatic deactivation
+    dormancyWarningSentAt: {
+      type: Date,
+      default: null,
+    },
+    dormancyExemption: {
+      exempt: { type: Boolean, default: false },
+      reason: { type: String, default: "" },
+      setBy: { type: mongoose.Schema.Types.ObjectId, ref: "users" },
+      setAt: { type: Date, default: null },
+    },
+    // Set when the personal data of the account was anonymised on request
+    erasedAt: {
+      type: Date,
+      default: null,
+    },
     statusHistory: [
       {
         status: String,
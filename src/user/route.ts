@@ -1,18 +1,151 @@
 import express, { Request, Response } from "express";
-import { User } from "./model";
-import { verifyToken } from "../../middleware/middleware";
+import mongoose from "mongoose";
+import { User, USER_STATUSES } from "./model";
+import {
+  hasPermission,
+  requirePermission,
+  verifyToken,
+} from "../../middleware/middleware";
+import { clearLoginFailures } from "../auth/lockout";
+import { revokeAllSessions } from "../auth/token";
+import { checkUpdatePolicy } from "../policy/ownership";
+import { Trader } from "../trader/model";
+import { findRole } from "../role/model";
+import { sendVerificationEmail } from "../auth/verification";
+import { LoginEvent } from "../auth/model";
+import { sendStatusChangeEmail, setUserStatus } from "./status";
 
 require("dotenv").config();
 export const user = express.Router();
 
+// Fields the user listing can be sorted by; _id breaks ties
+const USER_SORT_FIELDS = ["createdAt", "email", "lastLogin"] as const;
+
+type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+// Never includes the password hash or any other credential
+const USER_LIST_PROJECTION =
+  "email role status statusReason lastStatusUpdate lastLogin emailVerified dormancyExemption erasedAt createdAt updatedAt";
+
+interface UserListCursor {
+  value: string | null;
+  id: string;
+}
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const encodeCursor = (cursor: UserListCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeCursor = (
+  raw: string,
+  field: UserSortField
+): UserListCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      cursor &&
+      mongoose.isValidObjectId(cursor.id) &&
+      (cursor.value === null ||
+        (typeof cursor.value === "string" &&
+          // Date cursors must parse, or the query fails to cast
+          (field === "email" || !isNaN(new Date(cursor.value).getTime()))))
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the invalid cursor response
+  }
+  return null;
+};
+
+/**
+ * Filter for the page after `cursor`. Missing values (users who never logged
+ * in) sort before every date, as they do in MongoDB.
+ */
+const afterCursor = (
+  field: UserSortField,
+  ascending: boolean,
+  cursor: UserListCursor
+) => {
+  const value =
+    cursor.value === null || field === "email"
+      ? cursor.value
+      : new Date(cursor.value);
+  const idAfter = { _id: { [ascending ? "$gt" : "$lt"]: cursor.id } };
+
+  if (value === null) {
+    return ascending
+      ? { $or: [{ [field]: null, ...idAfter }, { [field]: { $ne: null } }] }
+      : { [field]: null, ...idAfter };
+  }
+
+  return {
+    $or: [
+      { [field]: { [ascending ? "$gt" : "$lt"]: value } },
+      { [field]: value, ...idAfter },
+      ...(ascending ? [] : [{ [field]: null }]),
+    ],
+  };
+};
+
 /**
  * @swagger
  * /user:
  *   get:
- *     summary: Retrieve all users
+ *     summary: List users for administration
+ *     description: Cursor-paginated. Pass `nextCursor` from the previous page as `cursor` with the same filters and sort to get the next page. Password hashes and other credentials are never returned.
  *     tags: [User]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Case-insensitive part of the email address
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [Active, InActive, Suspended]
+ *       - in: query
+ *         name: lastLoginFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: lastLoginTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, email, lastLogin]
+ *           default: createdAt
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
  *     responses:
  *       200:
  *         description: Users retrieved successfully
@@ -31,34 +164,57 @@ export const user = express.Router();
  *                   type: string
  *                   example: 'User retrieved successfully'
  *                 data:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       _id:
- *                         type: string
- *                         description: User's unique identifier
- *                       email:
- *                         type: string
- *                         description: User's email address
- *                       role:
- *                         type: string
- *                         description: User's role
- *                       status:
- *                         type: string
- *                         description: User's account status
- *                       lastLogin:
- *                         type: string
- *                         format: date-time
- *                         description: Last login timestamp
- *                       createdAt:
- *                         type: string
- *                         format: date-time
- *                         description: User creation timestamp
- *                       updatedAt:
- *                         type: string
- *                         format: date-time
- *                         description: User update timestamp
+ *                   type: object
+ *                   properties:
+ *                     users:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           _id:
+ *                             type: string
+ *                             description: User's unique identifier
+ *                           email:
+ *                             type: string
+ *                             description: User's email address
+ *                           role:
+ *                             type: string
+ *                             description: User's role
+ *                           status:
+ *                             type: string
+ *                             description: User's account status
+ *                           lastLogin:
+ *                             type: string
+ *                             format: date-time
+ *                             description: Last login timestamp
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                             description: User creation timestamp
+ *                     nextCursor:
+ *                       type: string
+ *                       nullable: true
+ *                       description: Null on the last page
+ *                     limit:
+ *                       type: integer
+ *       400:
+ *         description: Invalid filter, sort or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-01-0014'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Invalid cursor'
+ *       403:
+ *         description: Insufficient permissions
  *       500:
  *         description: Internal server error
  *         content:
@@ -77,30 +233,120 @@ export const user = express.Router();
  *                   example: 'Internal server error while fetching users'
  */
 
-user.get("/", verifyToken, async (req: Request, res: Response) => {
-  try {
-    const users = await User.find();
-    res.status(200).json({
-      code: "Success-01-0001",
-      status: "Success",
-      message: "User retrieved successfully",
-      data: users,
-    });
-  } catch (error) {
-    console.error("Error retrieving users:", error);
-    res.status(500).json({
-      code: "Error-03-0001",
-      status: "Error",
-      message: "Internal server error while fetching users",
-    });
+user.get(
+  "/",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const invalid = (message: string) =>
+        res.status(400).json({
+          code: "Error-01-0014",
+          status: "Error",
+          message,
+        });
+
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt(String(req.query.limit)) || 20)
+      );
+
+      const sortBy = (req.query.sortBy ?? "createdAt") as UserSortField;
+      if (!USER_SORT_FIELDS.includes(sortBy)) {
+        return invalid(`sortBy must be one of ${USER_SORT_FIELDS.join(", ")}`);
+      }
+      const sortOrder = req.query.sortOrder ?? "desc";
+      if (sortOrder !== "asc" && sortOrder !== "desc") {
+        return invalid("sortOrder must be asc or desc");
+      }
+      const ascending = sortOrder === "asc";
+
+      const conditions: Record<string, unknown>[] = [];
+
+      const { search, role, status, lastLoginFrom, lastLoginTo, cursor } =
+        req.query;
+      if (typeof search === "string" && search.trim()) {
+        conditions.push({
+          email: { $regex: escapeRegex(search.trim()), $options: "i" },
+        });
+      }
+      if (typeof role === "string" && role) {
+        conditions.push({ role });
+      }
+      if (typeof status === "string" && status) {
+        if (!(USER_STATUSES as readonly string[]).includes(status)) {
+          return invalid(`status must be one of ${USER_STATUSES.join(", ")}`);
+        }
+        conditions.push({ status });
+      }
+
+      const lastLogin: Record<string, Date> = {};
+      for (const [key, operator] of [
+        [lastLoginFrom, "$gte"],
+        [lastLoginTo, "$lte"],
+      ] as const) {
+        if (key === undefined) continue;
+        const date = new Date(String(key));
+        if (isNaN(date.getTime())) {
+          return invalid("lastLoginFrom and lastLoginTo must be dates");
+        }
+        lastLogin[operator] = date;
+      }
+      if (Object.keys(lastLogin).length > 0) {
+        conditions.push({ lastLogin });
+      }
+
+      if (cursor !== undefined) {
+        const decoded = decodeCursor(String(cursor), sortBy);
+        if (!decoded) {
+          return invalid("Invalid cursor");
+        }
+        conditions.push(afterCursor(sortBy, ascending, decoded));
+      }
+
+      const direction = ascending ? 1 : -1;
+      // One extra row tells whether there is a next page
+      const users = await User.find(
+        conditions.length > 0 ? { $and: conditions } : {}
+      )
+        .select(USER_LIST_PROJECTION)
+        .sort({ [sortBy]: direction, _id: direction })
+        .limit(limit + 1);
+
+      const page = users.slice(0, limit);
+      const last = page[page.length - 1];
+      let nextCursor: string | null = null;
+      if (users.length > limit && last) {
+        const value = last.get(sortBy) as Date | string | null | undefined;
+        nextCursor = encodeCursor({
+          value: value instanceof Date ? value.toISOString() : value ?? null,
+          id: last._id.toString(),
+        });
+      }
+
+      res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "User retrieved successfully",
+        data: { users: page, nextCursor, limit },
+      });
+    } catch (error) {
+      console.error("Error retrieving users:", error);
+      res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error while fetching users",
+      });
+    }
   }
-});
+);
 
 /**
  * @swagger
  * /user/{userId}:
  *   get:
  *     summary: Retrieve a specific user by ID
+ *     description: Users may retrieve their own account; other accounts require the user:manage permission.
  *     tags: [User]
  *     security:
  *       - bearerAuth: []
@@ -155,6 +401,22 @@ user.get("/", verifyToken, async (req: Request, res: Response) => {
  *                       type: string
  *                       format: date-time
  *                       description: User update timestamp
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-01-0007'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Insufficient permissions'
  *       404:
  *         description: User not found
  *         content:
@@ -192,7 +454,21 @@ user.get("/", verifyToken, async (req: Request, res: Response) => {
 user.get("/:userId", verifyToken, async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
-    const user = await User.findOne({ _id: userId });
+    // Users may look themselves up; anyone else needs user:manage
+    if (
+      userId !== req.user!.userId &&
+      !(await hasPermission(req.user, "user:manage"))
+    ) {
+      return res.status(403).json({
+        code: "Error-01-0007",
+        status: "Error",
+        message: "Insufficient permissions",
+      });
+    }
+
+    const user = mongoose.isValidObjectId(userId)
+      ? await User.findOne({ _id: userId }).select(USER_LIST_PROJECTION)
+      : null;
     if (!user) {
       return res.status(404).json({
         code: "Error-01-0007",
@@ -221,6 +497,7 @@ user.get("/:userId", verifyToken, async (req: Request, res: Response) => {
  * /user:
  *   put:
  *     summary: Update user information
+ *     description: Users may change the email of their own account, and roles holding user:manage the email of any account; no other field can be updated here. Accounts whose role grants permissions can only be re-addressed by their owner or a role holding role:manage. Changing the email marks it unverified and sends a verification link; the trader profile follows the new address. Roles change through /role/assign and status through /user/{userId}/suspend and /reactivate.
  *     tags: [User]
  *     security:
  *       - bearerAuth: []
@@ -239,17 +516,33 @@ user.get("/:userId", verifyToken, async (req: Request, res: Response) => {
  *               email:
  *                 type: string
  *                 description: User's email address
- *               role:
- *                 type: string
- *                 description: User's role
- *               status:
- *                 type: string
- *                 description: User's account status
  *             example:
  *               _id: "60d21b4667d0d8992e610c85"
- *               status: "Active"
- *               role: "admin"
+ *               email: "new.address@example.com"
  *     responses:
+ *       403:
+ *         description: Not the owner of the record, a field requires administrator privileges, or the account's role grants permissions and the caller lacks role:manage (Error-08-0004)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-08-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Only administrators can change: email'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rejectedFields:
+ *                       type: array
+ *                       items:
+ *                         type: string
  *       200:
  *         description: User updated successfully
  *         content:
@@ -267,7 +560,7 @@ user.get("/:userId", verifyToken, async (req: Request, res: Response) => {
  *                   type: string
  *                   example: 'Trader profile updated successfully'
  *       400:
- *         description: Missing user ID
+ *         description: Missing user ID, invalid email, or a field that cannot be changed here such as role
  *         content:
  *           application/json:
  *             schema:
@@ -282,6 +575,8 @@ user.get("/:userId", verifyToken, async (req: Request, res: Response) => {
  *                 message:
  *                   type: string
  *                   example: 'Trader ID is required'
+ *       409:
+ *         description: Another account already uses the email
  *       404:
  *         description: User not found
  *         content:
@@ -340,11 +635,80 @@ user.put("/", verifyToken, async (req: Request, res: Response) => {
       });
     }
 
-    // Update the trader with only the fields provided
-    const updateResponse = await User.updateOne(
-      { _id: _id },
-      { $set: updateFields }
+    // Owners may only touch their own record and only allow-listed fields
+    const violation = await checkUpdatePolicy(
+      req,
+      "user",
+      user._id.toString(),
+      Object.keys(updateFields)
     );
+    if (violation) {
+      return res.status(violation.httpStatus).json({
+        code: violation.code,
+        status: "Error",
+        message: violation.message,
+        data: { rejectedFields: violation.rejectedFields },
+      });
+    }
+
+    const emailChanged =
+      updateFields.email !== undefined && updateFields.email !== user.email;
+    if (emailChanged) {
+      if (
+        typeof updateFields.email !== "string" ||
+        !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(updateFields.email)
+      ) {
+        return res.status(400).json({
+          code: "Error-01-0015",
+          status: "Error",
+          message: "A valid email is required",
+        });
+      }
+
+      // A new address plus /forgot-password would hand over the account, so
+      // only role managers may re-address accounts that hold permissions
+      const targetRole = await findRole(user.role);
+      if (
+        user._id.toString() !== req.user!.userId &&
+        targetRole &&
+        targetRole.permissions.length > 0 &&
+        !(await hasPermission(req.user, "role:manage"))
+      ) {
+        return res.status(403).json({
+          code: "Error-08-0004",
+          status: "Error",
+          message:
+            "Changing the email of an account with permissions requires role:manage",
+        });
+      }
+
+      const taken = await User.findOne({
+        email: updateFields.email,
+        _id: { $ne: user._id },
+      }).collation({ locale: "en", strength: 2 });
+      if (taken) {
+        return res.status(409).json({
+          code: "Error-01-0003",
+          status: "Error",
+          message: "Email already exists",
+        });
+      }
+
+      // The new address has to be confirmed before the next login
+      updateFields.emailVerified = false;
+      updateFields.emailVerifiedAt = null;
+    }
+
+    await User.updateOne({ _id: user._id }, { $set: updateFields });
+
+    if (emailChanged) {
+      // Keep the trader profile on the same address as the account
+      await Trader.updateOne(
+        { userId: user._id },
+        { $set: { email: updateFields.email } }
+      );
+      await sendVerificationEmail(user._id.toString(), updateFields.email);
+    }
 
     return res.status(200).json({
       code: "Success-01-0001",
@@ -360,3 +724,651 @@ user.put("/", verifyToken, async (req: Request, res: Response) => {
     });
   }
 });
+
+/**
+ * @swagger
+ * /user/{userId}/unlock:
+ *   post:
+ *     summary: Unlock an account locked by failed login attempts
+ *     description: Clears the failed-login counter of the account and records the action in statusHistory. Per-IP lockouts are not affected.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Unique identifier of the user
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: 'Identity confirmed by phone'
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0002'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'Account unlocked successfully'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-01-0007'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'User not found'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-03-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'Internal server error'
+ */
+user.post(
+  "/:userId/unlock",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const reason = req.body?.reason;
+
+      const user = mongoose.isValidObjectId(userId)
+        ? await User.findOne({ _id: userId })
+        : null;
+      if (!user) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      await clearLoginFailures(user.email);
+
+      // Status itself does not change; the entry documents who unlocked it
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $push: {
+            statusHistory: {
+              status: user.status,
+              reason: reason
+                ? `Login lockout cleared: ${reason}`
+                : "Login lockout cleared",
+              updatedAt: new Date(),
+              updatedBy: req.user!.userId,
+            },
+          },
+        }
+      );
+
+      return res.status(200).json({
+        code: "Success-01-0002",
+        status: "Success",
+        message: "Account unlocked successfully",
+      });
+    } catch (error) {
+      console.error("Error unlocking account:", error);
+      return res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /user/{userId}/force-password-change:
+ *   post:
+ *     summary: Require a user to choose a new password at the next login
+ *     description: Existing sessions are revoked so the change applies immediately.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Unique identifier of the user
+ *     responses:
+ *       200:
+ *         description: Password change required at next login
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'User must change password at next login'
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+user.post(
+  "/:userId/force-password-change",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const result = mongoose.isValidObjectId(req.params.userId)
+        ? await User.updateOne(
+            { _id: req.params.userId },
+            { $set: { mustChangePassword: true } }
+          )
+        : null;
+      if (!result || result.matchedCount === 0) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      await revokeAllSessions(req.params.userId, "password-change-required");
+
+      return res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "User must change password at next login",
+      });
+    } catch (error) {
+      console.error("Error forcing password change:", error);
+      return res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /user/{userId}/login-history:
+ *   get:
+ *     summary: Login history of a user, newest first
+ *     description: Includes failed attempts such as wrong passwords, wrong 2FA codes and blocked logins.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: success
+ *         schema:
+ *           type: boolean
+ *         description: Only successful (true) or failed (false) attempts
+ *     responses:
+ *       200:
+ *         description: Login history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                     total:
+ *                       type: integer
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+user.get(
+  "/:userId/login-history",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const targetUser = mongoose.isValidObjectId(req.params.userId)
+        ? await User.findOne({ _id: req.params.userId }).select("_id")
+        : null;
+      if (!targetUser) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      const page = Math.max(1, parseInt(String(req.query.page)) || 1);
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt(String(req.query.limit)) || 20)
+      );
+
+      const filter: Record<string, unknown> = { userId: targetUser._id };
+      if (req.query.success === "true" || req.query.success === "false") {
+        filter.success = req.query.success === "true";
+      }
+
+      const [events, total] = await Promise.all([
+        LoginEvent.find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        LoginEvent.countDocuments(filter),
+      ]);
+
+      return res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Login history retrieved successfully",
+        data: { events, total, page, limit },
+      });
+    } catch (error) {
+      console.error("Error retrieving login history:", error);
+      return res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /user/{userId}/suspend:
+ *   post:
+ *     summary: Suspend a user
+ *     description: The user can no longer log in, every session is revoked and the user is emailed. The change is recorded in statusHistory.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: 'Licence revoked by the regulator'
+ *     responses:
+ *       200:
+ *         description: User suspended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 message:
+ *                   type: string
+ *                   example: 'User suspended'
+ *       400:
+ *         description: Missing reason, own account or already suspended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Error-15-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Error'
+ *                 message:
+ *                   type: string
+ *                   example: 'reason is required'
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+user.post(
+  "/:userId/suspend",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const reason = req.body?.reason;
+      if (!reason || typeof reason !== "string") {
+        return res.status(400).json({
+          code: "Error-15-0001",
+          status: "Error",
+          message: "reason is required",
+        });
+      }
+
+      if (req.params.userId === req.user!.userId) {
+        return res.status(400).json({
+          code: "Error-15-0002",
+          status: "Error",
+          message: "You cannot suspend your own account",
+        });
+      }
+
+      const user = mongoose.isValidObjectId(req.params.userId)
+        ? await User.findOne({ _id: req.params.userId })
+        : null;
+      if (!user) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      if (user.status === "Suspended") {
+        return res.status(400).json({
+          code: "Error-15-0003",
+          status: "Error",
+          message: "User is already suspended",
+        });
+      }
+
+      await setUserStatus(user._id, "Suspended", reason, req.user!.userId);
+      await revokeAllSessions(user._id, "suspended");
+      await sendStatusChangeEmail(user.email, "Suspended", reason);
+
+      return res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "User suspended",
+      });
+    } catch (error) {
+      console.error("Error suspending user:", error);
+      return res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /user/{userId}/reactivate:
+ *   post:
+ *     summary: Reactivate a suspended or inactive user
+ *     description: The user can log in again and is emailed. The change is recorded in statusHistory.
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: 'Appeal accepted'
+ *     responses:
+ *       200:
+ *         description: User reactivated
+ *       400:
+ *         description: Missing reason, user already active or erased
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+user.post(
+  "/:userId/reactivate",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const reason = req.body?.reason;
+      if (!reason || typeof reason !== "string") {
+        return res.status(400).json({
+          code: "Error-15-0001",
+          status: "Error",
+          message: "reason is required",
+        });
+      }
+
+      const user = mongoose.isValidObjectId(req.params.userId)
+        ? await User.findOne({ _id: req.params.userId })
+        : null;
+      if (!user) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      if (user.erasedAt) {
+        return res.status(400).json({
+          code: "Error-15-0005",
+          status: "Error",
+          message: "The personal data of this user has been erased",
+        });
+      }
+
+      if (user.status === "Active") {
+        return res.status(400).json({
+          code: "Error-15-0004",
+          status: "Error",
+          message: "User is already active",
+        });
+      }
+
+      await setUserStatus(user._id, "Active", reason, req.user!.userId);
+      await sendStatusChangeEmail(user.email, "Active", reason);
+
+      return res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "User reactivated",
+      });
+    } catch (error) {
+      console.error("Error reactivating user:", error);
+      return res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /user/{userId}/status-history:
+ *   get:
+ *     summary: Status changes of a user, newest first
+ *     tags: [User]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Status history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   example: 'Success-01-0001'
+ *                 status:
+ *                   type: string
+ *                   example: 'Success'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     status:
+ *                       type: string
+ *                       example: 'Suspended'
+ *                     statusReason:
+ *                       type: string
+ *                     lastStatusUpdate:
+ *                       type: string
+ *                       format: date-time
+ *                     history:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           status:
+ *                             type: string
+ *                           reason:
+ *                             type: string
+ *                           updatedAt:
+ *                             type: string
+ *                             format: date-time
+ *                           updatedBy:
+ *                             type: object
+ *                             description: Administrator who made the change; null for system changes
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Internal server error
+ */
+user.get(
+  "/:userId/status-history",
+  verifyToken,
+  requirePermission("user:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      const user = mongoose.isValidObjectId(req.params.userId)
+        ? await User.findOne({ _id: req.params.userId })
+            .select("status statusReason lastStatusUpdate statusHistory")
+            .populate("statusHistory.updatedBy", "email")
+        : null;
+      if (!user) {
+        return res.status(404).json({
+          code: "Error-01-0007",
+          status: "Error",
+          message: "User not found",
+        });
+      }
+
+      return res.status(200).json({
+        code: "Success-01-0001",
+        status: "Success",
+        message: "Status history retrieved successfully",
+        data: {
+          status: user.status,
+          statusReason: user.statusReason,
+          lastStatusUpdate: user.lastStatusUpdate,
+          history: [...user.statusHistory].reverse(),
+        },
+      });
+    } catch (error) {
+      console.error("Error retrieving status history:", error);
+      return res.status(500).json({
+        code: "Error-03-0001",
+        status: "Error",
+        message: "Internal server error",
+      });
+    }
+  }
+);
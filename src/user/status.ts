@@ -0,0 +1,70 @@
+import mongoose from "mongoose";
+import { User, UserStatus } from "./model";
+import { MAIL_FROM, transporter } from "../auth/mailer";
+
+/**
+ * Change a user's status and append the change to statusHistory.
+ * `updatedBy` is null for changes made by the system.
+ */
+export const setUserStatus = (
+  userId: string | mongoose.Types.ObjectId,
+  status: UserStatus,
+  reason: string,
+  updatedBy: string | mongoose.Types.ObjectId | null
+) => {
+  const now = new Date();
+  return User.updateOne(
+    { _id: userId },
+    {
+      $set: {
+        status,
+        statusReason: reason,
+        lastStatusUpdate: now,
+      },
+      $push: {
+        statusHistory: {
+          status,
+          reason,
+          updatedAt: now,
+          updatedBy,
+        },
+      },
+    }
+  );
+};
+
+const STATUS_EMAILS: Record<UserStatus, { subject: string; text: string }> = {
+  Active: {
+    subject: "Your B-Trade account has been reactivated",
+    text: "Your B-Trade account has been reactivated and you can log in again.",
+  },
+  InActive: {
+    subject: "Your B-Trade account has been deactivated",
+    text: "Your B-Trade account has been deactivated and you can no longer log in.",
+  },
+  Suspended: {
+    subject: "Your B-Trade account has been suspended",
+    text: "Your B-Trade account has been suspended and you have been logged out of every device.",
+  },
+};
+
+/**
+ * Tell the user about a status change. Failures are logged, not thrown.
+ */
+export const sendStatusChangeEmail = async (
+  email: string,
+  status: UserStatus,
+  reason: string
+) => {
+  const template = STATUS_EMAILS[status];
+  try {
+    await transporter.sendMail({
+      from: MAIL_FROM,
+      to: email,
+      subject: template.subject,
+      text: `${template.text}\n\nReason: ${reason}\n\nIf you have questions, please contact support.`,
+    });
+  } catch (mailError) {
+    console.error("Error sending status change email:", mailError);
+  }
+};
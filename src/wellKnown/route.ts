@@ -0,0 +1,46 @@
+import express, { Request, Response } from "express";
+import { getJwks } from "../auth/keyRing";
+
+export const wellKnown = express.Router();
+
+/**
+ * @swagger
+ * /.well-known/jwks.json:
+ *   get:
+ *     summary: Public keys that verify B-Trade tokens
+ *     description: Served from the site root, not under /api/v1. Tokens carry the signing key in their `kid` header. The set includes the next key before it is used and retired keys until their tokens have expired.
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: JSON Web Key Set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 keys:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       kty:
+ *                         type: string
+ *                         example: 'RSA'
+ *                       kid:
+ *                         type: string
+ *                       alg:
+ *                         type: string
+ *                         example: 'RS256'
+ *                       use:
+ *                         type: string
+ *                         example: 'sig'
+ *                       n:
+ *                         type: string
+ *                       e:
+ *                         type: string
+ */
+wellKnown.get("/jwks.json", (req: Request, res: Response) => {
+  // Standard JWKS format rather than the usual response envelope
+  res.setHeader("Cache-Control", "public, max-age=300");
+  res.status(200).json(getJwks());
+});